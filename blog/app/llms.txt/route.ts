@@ -1,8 +1,10 @@
 import { createGET } from "next-llms-generator/route";
+import sitemap from "app/sitemap";
 
 export const GET = createGET({
   generatorOptions: {
     siteUrl: 'http://coldran.com/',
+    sitemap,
     enableRecursiveDiscovery: true,
   }
 });
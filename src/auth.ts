@@ -0,0 +1,389 @@
+import type {
+  AuthOptions,
+  CookieInit,
+  Fetcher,
+  FetcherResponse,
+  Logger,
+  UrlCredentials
+} from './types.js';
+import { ErrorType, GeneratorError } from './types.js';
+import { discardResponseBody } from './fetcher.js';
+
+/**
+ * A cookie stored in the jar
+ */
+interface StoredCookie {
+  name: string;
+  value: string;
+  domain: string;
+  /** Whether the cookie only matches its exact host (no Domain attribute) */
+  hostOnly: boolean;
+  path: string;
+  secure: boolean;
+  /** Expiry in ms since epoch, or null for session cookies */
+  expires: number | null;
+}
+
+/**
+ * In-memory cookie jar following the RFC 6265 domain, path, secure and expiry rules
+ */
+export class CookieJar {
+  private readonly cookies = new Map<string, StoredCookie>();
+
+  /**
+   * Add a cookie directly (e.g. a configured bypass cookie)
+   */
+  set(init: CookieInit, defaultUrl: string): void {
+    const url = new URL(defaultUrl);
+    const domain = (init.domain || url.hostname).replace(/^\./, '').toLowerCase();
+    this.store({
+      name: init.name,
+      value: init.value,
+      domain,
+      hostOnly: !init.domain,
+      path: init.path || '/',
+      secure: false,
+      expires: null
+    });
+  }
+
+  /**
+   * Store the cookies from Set-Cookie headers of a response to the given URL
+   */
+  setFromHeaders(url: string, setCookieHeaders: string[]): void {
+    const requestUrl = new URL(url);
+
+    for (const header of setCookieHeaders) {
+      const cookie = this.parseSetCookie(header, requestUrl);
+      if (cookie) this.store(cookie);
+    }
+  }
+
+  /**
+   * Cookie header value for a request to the URL, or an empty string
+   */
+  getCookieHeader(url: string): string {
+    const requestUrl = new URL(url);
+    const host = requestUrl.hostname.toLowerCase();
+    const now = Date.now();
+    const matching: StoredCookie[] = [];
+
+    for (const [key, cookie] of this.cookies) {
+      if (cookie.expires !== null && cookie.expires <= now) {
+        this.cookies.delete(key);
+        continue;
+      }
+      const domainMatches = cookie.hostOnly
+        ? host === cookie.domain
+        : host === cookie.domain || host.endsWith(`.${cookie.domain}`);
+      if (!domainMatches || !this.pathMatches(requestUrl.pathname, cookie.path)) continue;
+      if (cookie.secure && requestUrl.protocol !== 'https:') continue;
+      matching.push(cookie);
+    }
+
+    // More specific paths first, as browsers do
+    return matching
+      .sort((a, b) => b.path.length - a.path.length)
+      .map(cookie => `${cookie.name}=${cookie.value}`)
+      .join('; ');
+  }
+
+  /**
+   * Values of all stored cookies
+   */
+  getValues(): string[] {
+    return Array.from(this.cookies.values(), cookie => cookie.value);
+  }
+
+  /**
+   * Number of stored cookies
+   */
+  get size(): number {
+    return this.cookies.size;
+  }
+
+  /**
+   * Insert, replace or (for expired cookies) delete a cookie
+   */
+  private store(cookie: StoredCookie): void {
+    const key = `${cookie.domain};${cookie.path};${cookie.name}`;
+    if (cookie.expires !== null && cookie.expires <= Date.now()) {
+      this.cookies.delete(key);
+    } else {
+      this.cookies.set(key, cookie);
+    }
+  }
+
+  /**
+   * Parse a Set-Cookie header, rejecting cookies for domains the response may not set
+   */
+  private parseSetCookie(header: string, requestUrl: URL): StoredCookie | null {
+    const [pair = '', ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+    if (separator <= 0) return null;
+
+    const host = requestUrl.hostname.toLowerCase();
+    const cookie: StoredCookie = {
+      name: pair.slice(0, separator).trim(),
+      value: pair.slice(separator + 1).trim(),
+      domain: host,
+      hostOnly: true,
+      path: this.defaultPath(requestUrl.pathname),
+      secure: false,
+      expires: null
+    };
+
+    let maxAge: number | undefined;
+    for (const attribute of attributes) {
+      const index = attribute.indexOf('=');
+      const name = (index === -1 ? attribute : attribute.slice(0, index)).trim().toLowerCase();
+      const value = index === -1 ? '' : attribute.slice(index + 1).trim();
+
+      if (name === 'domain' && value) {
+        const domain = value.replace(/^\./, '').toLowerCase();
+        if (host !== domain && !host.endsWith(`.${domain}`)) return null;
+        cookie.domain = domain;
+        cookie.hostOnly = false;
+      } else if (name === 'path' && value.startsWith('/')) {
+        cookie.path = value;
+      } else if (name === 'secure') {
+        cookie.secure = true;
+      } else if (name === 'max-age' && /^-?\d+$/.test(value)) {
+        maxAge = Number(value);
+      } else if (name === 'expires') {
+        const expires = Date.parse(value);
+        if (!Number.isNaN(expires)) cookie.expires = expires;
+      }
+    }
+
+    // Max-Age takes precedence over Expires
+    if (maxAge !== undefined) {
+      cookie.expires = Date.now() + maxAge * 1000;
+    }
+    return cookie;
+  }
+
+  /**
+   * Default cookie path: the request path up to its last slash
+   */
+  private defaultPath(pathname: string): string {
+    const index = pathname.lastIndexOf('/');
+    return index <= 0 ? '/' : pathname.slice(0, index);
+  }
+
+  /**
+   * RFC 6265 path matching
+   */
+  private pathMatches(requestPath: string, cookiePath: string): boolean {
+    if (requestPath === cookiePath) return true;
+    if (!requestPath.startsWith(cookiePath)) return false;
+    return cookiePath.endsWith('/') || requestPath.charAt(cookiePath.length) === '/';
+  }
+}
+
+/**
+ * Applies cookies and scoped credentials to requests and performs the optional login step
+ */
+export class AuthManager {
+  readonly cookieJar = new CookieJar();
+  private loginPromise: Promise<void> | null = null;
+
+  constructor(
+    private readonly options: AuthOptions,
+    private readonly siteUrl: string,
+    private readonly logger?: Logger
+  ) {
+    options.cookies?.forEach(cookie => this.cookieJar.set(cookie, siteUrl));
+  }
+
+  /**
+   * Run the configured login once; concurrent callers share the same attempt
+   */
+  ensureLoggedIn(fetcher: Fetcher, headers: Record<string, string>): Promise<void> {
+    if (!this.options.login) {
+      return Promise.resolve();
+    }
+    if (!this.loginPromise) {
+      this.loginPromise = this.login(fetcher, headers);
+    }
+    return this.loginPromise;
+  }
+
+  /**
+   * Authorization and Cookie headers for a request to the URL
+   */
+  getRequestHeaders(url: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    const credentials = this.findCredentials(url);
+    if (credentials?.type === 'basic') {
+      const encoded = Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64');
+      headers['Authorization'] = `Basic ${encoded}`;
+    } else if (credentials?.type === 'bearer') {
+      headers['Authorization'] = `Bearer ${credentials.token}`;
+    }
+
+    const cookie = this.cookieJar.getCookieHeader(url);
+    if (cookie) headers['Cookie'] = cookie;
+
+    return headers;
+  }
+
+  /**
+   * Capture Set-Cookie headers from a response
+   */
+  storeCookies(url: string, response: FetcherResponse): void {
+    const setCookies = getSetCookieHeaders(response);
+    if (setCookies.length > 0) {
+      this.cookieJar.setFromHeaders(response.url || url, setCookies);
+    }
+  }
+
+  /**
+   * Secret values that must never appear in logs
+   */
+  getSecrets(): string[] {
+    const secrets = [...this.cookieJar.getValues()];
+
+    for (const credentials of this.options.credentials || []) {
+      if (credentials.type === 'basic') {
+        secrets.push(credentials.password);
+        secrets.push(Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64'));
+      } else {
+        secrets.push(credentials.token);
+      }
+    }
+    Object.values(this.options.login?.fields || {}).forEach(value => secrets.push(value));
+
+    return secrets;
+  }
+
+  /**
+   * POST the login form without following redirects, so Set-Cookie on the redirect is captured
+   */
+  private async login(fetcher: Fetcher, headers: Record<string, string>): Promise<void> {
+    const login = this.options.login!;
+    const loginUrl = new URL(login.url, this.siteUrl).toString();
+    const cookiesBefore = this.cookieJar.size;
+
+    let response: FetcherResponse;
+    try {
+      response = await fetcher.fetch({
+        url: loginUrl,
+        method: login.method || 'POST',
+        headers: {
+          ...headers,
+          ...this.getRequestHeaders(loginUrl),
+          'Content-Type': 'application/x-www-form-urlencoded',
+          ...login.headers
+        },
+        body: new URLSearchParams(login.fields).toString(),
+        redirect: 'manual'
+      });
+    } catch (error) {
+      throw new GeneratorError(
+        `Login request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ErrorType.AUTH_ERROR,
+        loginUrl,
+        error as Error
+      );
+    }
+
+    await discardResponseBody(response);
+    if (response.status >= 400) {
+      throw new GeneratorError(`Login failed with HTTP ${response.status}`, ErrorType.AUTH_ERROR, loginUrl);
+    }
+
+    this.storeCookies(loginUrl, response);
+    if (this.cookieJar.size === cookiesBefore) {
+      this.logger?.warn(`Login to ${loginUrl} returned no cookies`);
+    } else {
+      this.logger?.info(`Logged in at ${loginUrl}`);
+    }
+  }
+
+  /**
+   * First credentials whose pattern matches the URL (strings are URL prefixes)
+   */
+  private findCredentials(url: string): UrlCredentials | undefined {
+    return this.options.credentials?.find(credentials =>
+      typeof credentials.urlPattern === 'string'
+        ? url.startsWith(credentials.urlPattern)
+        : credentials.urlPattern.test(url)
+    );
+  }
+}
+
+/**
+ * Logger wrapper that masks secrets in messages and arguments
+ */
+export class RedactingLogger implements Logger {
+  constructor(
+    private readonly logger: Logger,
+    private readonly getSecrets: () => string[]
+  ) {}
+
+  info(message: string, ...args: unknown[]): void {
+    this.logger.info(this.redact(message) as string, ...args.map(arg => this.redact(arg)));
+  }
+
+  warn(message: string, ...args: unknown[]): void {
+    this.logger.warn(this.redact(message) as string, ...args.map(arg => this.redact(arg)));
+  }
+
+  error(message: string, ...args: unknown[]): void {
+    this.logger.error(this.redact(message) as string, ...args.map(arg => this.redact(arg)));
+  }
+
+  debug(message: string, ...args: unknown[]): void {
+    this.logger.debug(this.redact(message) as string, ...args.map(arg => this.redact(arg)));
+  }
+
+  /**
+   * Replace secrets in strings, errors and plain objects/arrays
+   */
+  private redact(value: unknown, depth = 0): unknown {
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+    if (value instanceof Error) {
+      const redacted = new Error(this.redactString(value.message));
+      redacted.name = value.name;
+      if (value.stack) redacted.stack = this.redactString(value.stack);
+      return redacted;
+    }
+    if (depth < 5 && Array.isArray(value)) {
+      return value.map(item => this.redact(item, depth + 1));
+    }
+    if (depth < 5 && value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.redact(item, depth + 1)])
+      );
+    }
+    return value;
+  }
+
+  private redactString(value: string): string {
+    let result = value;
+    for (const secret of this.getSecrets()) {
+      // Very short values would mask unrelated text
+      if (secret.length >= 4) {
+        result = result.split(secret).join('[REDACTED]');
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * Set-Cookie headers of a response, one entry per cookie
+ */
+export function getSetCookieHeaders(response: FetcherResponse): string[] {
+  if (response.headers.getSetCookie) {
+    return response.headers.getSetCookie();
+  }
+
+  const combined = response.headers.get('set-cookie');
+  // Fetch joins multiple headers with ", "; split only where a new name=value pair starts
+  return combined ? combined.split(/,(?=\s*[^;,=\s]+=)/).map(header => header.trim()) : [];
+}
@@ -0,0 +1,94 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { BuildOutputPage, Logger } from './types.js';
+
+/**
+ * Default build output directories, relative to the project root.
+ * App Router and Pages Router prerenders come first, then the `next export` output.
+ */
+export const DEFAULT_BUILD_OUTPUT_DIRS = [
+  '.next/server/app',
+  '.next/server/pages',
+  'out'
+];
+
+/**
+ * Internal/error pages that never correspond to real routes
+ */
+const IGNORED_ROUTES = new Set(['404', '500']);
+
+/**
+ * Find prerendered HTML files in Next.js build output and map them back to routes
+ */
+export async function discoverBuildOutputPages(
+  dirs: string[],
+  rootDir: string,
+  logger?: Logger
+): Promise<BuildOutputPage[]> {
+  const pages = new Map<string, BuildOutputPage>();
+
+  for (const dir of dirs) {
+    const absoluteDir = path.resolve(rootDir, dir);
+    if (!fs.existsSync(absoluteDir)) {
+      logger?.debug(`Build output directory not found: ${absoluteDir}`);
+      continue;
+    }
+
+    const before = pages.size;
+    await collectHtmlFiles(absoluteDir, absoluteDir, pages);
+    logger?.info(`Found ${pages.size - before} prerendered pages in ${absoluteDir}`);
+  }
+
+  return Array.from(pages.values());
+}
+
+/**
+ * Map an HTML file path (relative to its output directory) to a route
+ */
+export function htmlPathToRoute(relativePath: string): string | null {
+  const segments = relativePath.split(path.sep).join('/').replace(/\.html$/, '').split('/');
+
+  // Private folders, _next assets, _not-found, _error, _app, _document
+  if (segments.some(segment => segment.startsWith('_'))) {
+    return null;
+  }
+
+  if (segments[segments.length - 1] === 'index') {
+    segments.pop();
+  }
+
+  const route = '/' + segments.join('/');
+  return IGNORED_ROUTES.has(route.slice(1)) ? null : route;
+}
+
+/**
+ * Recursively collect .html files, keeping the first file seen for each route
+ */
+async function collectHtmlFiles(
+  dirPath: string,
+  baseDir: string,
+  pages: Map<string, BuildOutputPage>
+): Promise<void> {
+  const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = path.join(dirPath, entry.name);
+
+    if (entry.isDirectory()) {
+      await collectHtmlFiles(fullPath, baseDir, pages);
+      continue;
+    }
+
+    if (!entry.isFile() || !entry.name.endsWith('.html')) {
+      continue;
+    }
+
+    const route = htmlPathToRoute(path.relative(baseDir, fullPath));
+    if (route === null || pages.has(route)) {
+      continue;
+    }
+
+    const stat = await fs.promises.stat(fullPath);
+    pages.set(route, { filePath: fullPath, route, lastModified: stat.mtime });
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Bytes of the document searched for a <meta charset> declaration, as in the HTML prescan
+ */
+const META_PRESCAN_BYTES = 1024;
+
+/**
+ * Determine a body's character encoding: BOM first, then the Content-Type charset,
+ * then <meta charset> / <meta http-equiv="Content-Type">, defaulting to UTF-8
+ */
+export function detectCharset(body: Uint8Array, contentType?: string | null): string {
+  const bomCharset = getBomCharset(body);
+  if (bomCharset) return bomCharset;
+
+  const headerCharset = contentType ? getCharsetParameter(contentType) : undefined;
+  if (headerCharset && isSupportedCharset(headerCharset)) return headerCharset;
+
+  const metaCharset = getMetaCharset(body);
+  if (metaCharset && isSupportedCharset(metaCharset)) return metaCharset;
+
+  return 'utf-8';
+}
+
+/**
+ * Decode a response body using the detected charset
+ */
+export function decodeBody(body: Uint8Array, contentType?: string | null): string {
+  return new TextDecoder(detectCharset(body, contentType)).decode(body);
+}
+
+/**
+ * Charset implied by a byte order mark
+ */
+function getBomCharset(body: Uint8Array): string | undefined {
+  if (body[0] === 0xef && body[1] === 0xbb && body[2] === 0xbf) return 'utf-8';
+  if (body[0] === 0xfe && body[1] === 0xff) return 'utf-16be';
+  if (body[0] === 0xff && body[1] === 0xfe) return 'utf-16le';
+  return undefined;
+}
+
+/**
+ * The charset parameter of a Content-Type value
+ */
+function getCharsetParameter(value: string): string | undefined {
+  const match = value.match(/charset\s*=\s*["']?([^"';\s]+)/i);
+  return match?.[1]?.toLowerCase();
+}
+
+/**
+ * Charset declared by a <meta> tag near the start of the document
+ */
+function getMetaCharset(body: Uint8Array): string | undefined {
+  // Encoding labels and the markup around them are ASCII in every charset we can detect this way
+  const head = Buffer.from(body.subarray(0, META_PRESCAN_BYTES)).toString('latin1');
+
+  for (const tag of head.match(/<meta\b[^>]*>/gi) || []) {
+    const charset = tag.match(/\bcharset\s*=\s*["']?\s*([^"'\s/>;]+)/i);
+    if (charset?.[1]) {
+      const label = charset[1].toLowerCase();
+      // A UTF-16 declaration in ASCII-compatible bytes is a mislabel; browsers read such pages as UTF-8
+      return label.startsWith('utf-16') ? 'utf-8' : label;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether TextDecoder knows the charset label
+ */
+function isSupportedCharset(label: string): boolean {
+  try {
+    new TextDecoder(label);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -28,6 +28,12 @@ interface CLIConfig {
   
   /** Include generation statistics */
   stats?: boolean;
+  
+  /** Read prerendered HTML from the build output instead of crawling */
+  fromBuild?: boolean;
+  
+  /** Only re-crawl pages that changed since the previous run */
+  incremental?: boolean;
 }
 
 /**
@@ -71,6 +77,14 @@ class LLMSCLI {
         generatorConfig.includeStats = this.config.stats;
       }
       
+      if (this.config.fromBuild) {
+        generatorConfig.source = 'build';
+      }
+      
+      if (this.config.incremental && !this.config.dryRun) {
+        generatorConfig.manifestPath = this.getManifestPath();
+      }
+      
       const generator = new LLMSGenerator(generatorConfig);
       
       const content = await generator.generate();
@@ -180,6 +194,14 @@ class LLMSCLI {
     fs.writeFileSync(outputPath, content, 'utf8');
   }
 
+  /**
+   * Manifest path next to the output file (public/llms.txt -> public/llms.manifest.json)
+   */
+  private getManifestPath(): string {
+    const outputPath = this.getOutputPath();
+    return path.join(path.dirname(outputPath), `${path.parse(outputPath).name}.manifest.json`);
+  }
+
   /**
    * Get the absolute output path
    */
@@ -232,6 +254,16 @@ function parseArgs(args: string[]): CLIConfig {
         config.stats = true;
         break;
         
+      case '--from-build':
+      case '-b':
+        config.fromBuild = true;
+        break;
+        
+      case '--incremental':
+      case '-i':
+        config.incremental = true;
+        break;
+        
       case '--help':
       case '-h':
         printHelp();
@@ -271,6 +303,8 @@ Options:
   -d, --dry-run           Show what would be generated without writing
   -f, --force             Force overwrite existing files
   -s, --stats             Include generation statistics in output
+  -b, --from-build        Read prerendered pages from .next/ or out/ (no network)
+  -i, --incremental       Only re-crawl new pages and pages whose sitemap lastmod advanced
   -h, --help              Show this help message
   --version               Show version number
 
@@ -296,6 +330,7 @@ Examples:
   next-llms-generator --output dist/content.txt
   next-llms-generator --config custom.config.js --verbose
   next-llms-generator --dry-run --stats
+  next-llms-generator --from-build
 `);
 }
 
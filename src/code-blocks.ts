@@ -0,0 +1,206 @@
+import type TurndownService from "turndown";
+
+/**
+ * DOM node types (jsdom does not expose the Node global)
+ */
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+/**
+ * Per-line wrappers emitted by Shiki, rehype-pretty-code, Prism/Docusaurus, sugar-high and Expressive Code
+ */
+const LINE_SELECTOR = '.line, [data-line], .token-line, .sh__line, .code-line, .ec-line, tr, div';
+
+/**
+ * Line-number gutters and other chrome that must not end up in the code
+ */
+const GUTTER_SELECTOR = [
+  '.line-numbers-rows', '.linenos', '.linenodiv', '.lineno', '.line-number', '.linenumber',
+  '.react-syntax-highlighter-line-number', '.hljs-ln-numbers', '.gutter', '[data-line-number]',
+  'button'
+].join(', ');
+
+/**
+ * Filename captions placed next to a code block by common highlighters and doc themes
+ */
+const TITLE_SELECTOR = [
+  '[data-rehype-pretty-code-title]', 'figcaption', '.code-title', '.code-block-title',
+  '[class*="codeBlockTitle"]', '.filename', '.file-name', '.title'
+].join(', ');
+
+/**
+ * Class name patterns carrying a language: language-ts, lang-ts, highlight-source-ts, highlight-ts
+ */
+const LANGUAGE_CLASS_PATTERN = /^(?:language|lang|highlight-source|highlight)-([\w#+.-]+)$/i;
+
+/**
+ * Class names that look like languages but are not
+ */
+const IGNORED_LANGUAGES = new Set(['none', 'plain', 'plaintext', 'text', 'txt', 'numbers', 'line-numbers']);
+
+/**
+ * Rewrite highlighted code blocks to plain `<pre data-language data-title><code>` elements.
+ * Runs before Readability, which drops class names and wrapper elements holding the language and filename.
+ */
+export function normalizeCodeBlocks(document: Document): void {
+  const blocks = Array.from(document.querySelectorAll('pre')).filter(pre => !pre.parentElement?.closest('pre'));
+
+  for (const pre of blocks) {
+    // Gutters rendered as their own <pre>, e.g. Pygments' linenos table cell
+    const gutter = pre.closest(GUTTER_SELECTOR);
+    if (gutter) {
+      gutter.remove();
+      continue;
+    }
+
+    const wrapper = findCodeWrapper(pre);
+    const language = detectCodeLanguage(pre, wrapper);
+    const title = detectCodeTitle(pre, wrapper);
+    const code = getCodeText(pre);
+
+    const clean = document.createElement('pre');
+    const codeElement = document.createElement('code');
+    codeElement.textContent = code;
+    clean.appendChild(codeElement);
+    if (language) {
+      clean.setAttribute('data-language', language);
+      codeElement.className = `language-${language}`;
+    }
+    if (title) clean.setAttribute('data-title', title);
+
+    (wrapper || pre).replaceWith(clean);
+  }
+}
+
+/**
+ * Add a fenced code block rule that keeps the language and filename as fence info
+ * and flattens highlighter markup that did not go through normalizeCodeBlocks
+ */
+export function addCodeBlockRules(turndownService: TurndownService): void {
+  turndownService.addRule('highlightedCodeBlock', {
+    filter: (node, options) => options.codeBlockStyle === 'fenced' && node.nodeName === 'PRE',
+    replacement: (_content, node, options) => {
+      const element = node as HTMLElement;
+      const code = getCodeText(element).replace(/\n$/, '');
+      const language = detectCodeLanguage(element);
+      const title = element.getAttribute('data-title');
+
+      const fenceChar = options.fence?.charAt(0) === '~' ? '~' : '`';
+      const longestRun = Math.max(0, ...(code.match(fenceChar === '~' ? /~+/g : /`+/g) || []).map(run => run.length));
+      const fence = fenceChar.repeat(Math.max(3, longestRun + 1));
+      const info = [language, title ? `title="${title.replace(/"/g, '\\"')}"` : ''].filter(Boolean).join(' ');
+
+      return `\n\n${fence}${info}\n${code}\n${fence}\n\n`;
+    }
+  });
+}
+
+/**
+ * Language from data-language/data-lang or a language class on the block, its <code> or its wrapper
+ */
+export function detectCodeLanguage(pre: Element, wrapper?: Element | null): string | undefined {
+  const candidates = [pre.querySelector('code'), pre];
+  for (let ancestor = pre.parentElement; ancestor && wrapper && wrapper.contains(ancestor); ancestor = ancestor.parentElement) {
+    candidates.push(ancestor);
+  }
+
+  for (const element of candidates) {
+    if (!element) continue;
+    const attribute = element.getAttribute('data-language') || element.getAttribute('data-lang');
+    if (attribute && !IGNORED_LANGUAGES.has(attribute.toLowerCase())) {
+      return attribute.toLowerCase();
+    }
+    for (const className of Array.from(element.classList)) {
+      const language = className.match(LANGUAGE_CLASS_PATTERN)?.[1]?.toLowerCase();
+      if (language && !IGNORED_LANGUAGES.has(language)) {
+        return language;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Code text with gutters dropped, <br> and per-line wrappers turned into newlines
+ */
+function getCodeText(root: Element): string {
+  let text = '';
+  let pendingBreak = false;
+
+  const append = (value: string) => {
+    if (!value) return;
+    if (pendingBreak && !value.startsWith('\n') && !text.endsWith('\n')) {
+      text += '\n';
+    }
+    pendingBreak = false;
+    text += value;
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === TEXT_NODE) {
+      append(node.nodeValue || '');
+      return;
+    }
+    if (node.nodeType !== ELEMENT_NODE) return;
+
+    const element = node as Element;
+    if (element.nodeName === 'BR') {
+      append('\n');
+      return;
+    }
+    if (element.matches(GUTTER_SELECTOR)) return;
+
+    element.childNodes.forEach(walk);
+    if (element !== root && element.matches(LINE_SELECTOR)) {
+      pendingBreak = true;
+    }
+  };
+
+  walk(root);
+  return text.replace(/\u00A0/g, ' ').replace(/\n$/, '');
+}
+
+/**
+ * Filename from data attributes or a caption element inside the wrapper
+ */
+function detectCodeTitle(pre: Element, wrapper: Element | null): string | undefined {
+  for (const element of [pre, pre.querySelector('code'), wrapper]) {
+    const title = element?.getAttribute('data-title') || element?.getAttribute('data-filename');
+    if (title) return title.trim();
+  }
+
+  const caption = Array.from(wrapper?.querySelectorAll(TITLE_SELECTOR) || []).find(element => !pre.contains(element));
+  const title = caption?.textContent?.trim();
+  return title || undefined;
+}
+
+/**
+ * Containers highlighters put around a code block, including Pygments-style layout tables
+ */
+const WRAPPER_ELEMENTS = new Set(['FIGURE', 'DIV', 'TABLE', 'TBODY', 'TR', 'TD']);
+
+/**
+ * Outermost ancestor that only wraps this code block (title bars, copy buttons, gutters)
+ */
+function findCodeWrapper(pre: Element): Element | null {
+  let wrapper: Element | null = null;
+  let current = pre.parentElement;
+
+  for (let depth = 0; current && depth < 6; depth++, current = current.parentElement) {
+    const isContainer = WRAPPER_ELEMENTS.has(current.nodeName);
+    if (!isContainer || current.querySelectorAll('pre').length !== 1) break;
+
+    const otherText = Array.from(current.childNodes)
+      .filter(child => child !== pre && !child.contains(pre))
+      .filter(child => !(child.nodeType === ELEMENT_NODE && (child as Element).matches(`${TITLE_SELECTOR}, ${GUTTER_SELECTOR}`)))
+      .map(child => child.textContent || '')
+      .join('')
+      .trim();
+    // Stop before swallowing surrounding prose
+    if (otherText) break;
+
+    wrapper = current;
+  }
+
+  return wrapper;
+}
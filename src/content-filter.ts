@@ -197,6 +197,15 @@ export class ContentFilter {
     if (!bestCategory) {
       throw new Error('No categories available for content filtering');
     }
+    
+    // Sources such as OpenAPI specs know their category up front
+    const assignedCategory = page.category
+      ? this.config.categories.find(c => c.id === page.category && c.enabled)
+      : undefined;
+    if (assignedCategory) {
+      return assignedCategory;
+    }
+    
     let bestScore = 0;
 
     for (const category of this.config.categories) {
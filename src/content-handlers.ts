@@ -0,0 +1,110 @@
+import type { ContentHandler, ContentHandlerContext, ContentHandlerResult } from './types.js';
+import { ErrorType, GeneratorError } from './types.js';
+import { parseFrontmatter, pickFrontmatterValue } from './frontmatter.js';
+
+/**
+ * Markdown/MDX responses: frontmatter supplies title and summary, the body goes through
+ * the same cleanup as file system Markdown
+ */
+export const markdownHandler: ContentHandler = {
+  name: 'markdown',
+  contentTypes: ['text/markdown', 'text/x-markdown', 'text/mdx'],
+  handle(body: string, context: ContentHandlerContext): ContentHandlerResult {
+    const { data, body: markdown } = parseFrontmatter(body);
+    const title = pickFrontmatterValue(data, ['title', 'name']) || markdown.match(/^#\s+(.+)$/m)?.[1]?.trim();
+    const summary = pickFrontmatterValue(data, ['summary', 'description', 'excerpt']);
+
+    const result: ContentHandlerResult = { content: context.cleanMarkdown(markdown).trim() };
+    if (title) result.title = title;
+    if (summary) result.summary = summary;
+    return result;
+  }
+};
+
+/**
+ * Plain text responses, kept verbatim in a fenced block so whitespace survives
+ */
+export const plainTextHandler: ContentHandler = {
+  name: 'text',
+  contentTypes: ['text/plain'],
+  handle(body: string): ContentHandlerResult {
+    return { content: fenceCode(body.replace(/\s+$/, ''), 'text') };
+  }
+};
+
+/**
+ * JSON responses, pretty-printed in a fenced block
+ */
+export const jsonHandler: ContentHandler = {
+  name: 'json',
+  contentTypes: ['application/json', 'text/json', '*/*+json'],
+  handle(body: string, context: ContentHandlerContext): ContentHandlerResult {
+    let value: unknown;
+    try {
+      value = JSON.parse(body);
+    } catch (error) {
+      throw new GeneratorError(
+        `Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ErrorType.PARSE_ERROR,
+        context.url,
+        error as Error
+      );
+    }
+    return { content: fenceCode(JSON.stringify(value, null, 2), 'json') };
+  }
+};
+
+/**
+ * Handlers used for non-HTML responses when no user handler matches
+ */
+export const BUILT_IN_CONTENT_HANDLERS: ContentHandler[] = [markdownHandler, plainTextHandler, jsonHandler];
+
+/**
+ * Ordered lookup of content handlers by MIME type; earlier registrations win
+ */
+export class ContentHandlerRegistry {
+  private readonly handlers: ContentHandler[] = [];
+
+  constructor(handlers: ContentHandler[] = []) {
+    handlers.forEach(handler => this.register(handler));
+  }
+
+  /**
+   * Add a handler after the existing ones
+   */
+  register(handler: ContentHandler): void {
+    this.handlers.push(handler);
+  }
+
+  /**
+   * First handler accepting the Content-Type (parameters such as charset are ignored)
+   */
+  find(contentType: string): ContentHandler | undefined {
+    const mimeType = contentType.split(';')[0]?.trim().toLowerCase() || '';
+    if (!mimeType) return undefined;
+
+    return this.handlers.find(handler =>
+      handler.contentTypes.some(pattern => matchesMimeType(mimeType, pattern.toLowerCase()))
+    );
+  }
+}
+
+/**
+ * Match a MIME type against a pattern where `*` matches any run of characters except `/`
+ */
+function matchesMimeType(mimeType: string, pattern: string): boolean {
+  if (!pattern.includes('*')) {
+    return mimeType === pattern;
+  }
+  const regex = new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\?]/g, '\\$&').replace(/\*/g, '[^/]*')}$`);
+  return regex.test(mimeType);
+}
+
+/**
+ * Wrap text in a code fence longer than any backtick run it contains
+ */
+export function fenceCode(text: string, language: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const marker = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${marker}${language}\n${text}\n${marker}`;
+}
@@ -0,0 +1,123 @@
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import type { CrawlCacheEntry, CrawlCacheOptions, Logger } from './types.js';
+
+/**
+ * Default cache directory; `.next/cache` is kept between builds by most Next.js hosts
+ */
+export const DEFAULT_CRAWL_CACHE_DIR = '.next/cache/next-llms-generator';
+
+/**
+ * Disk-backed per-URL cache of fetched HTML, validators and extracted results.
+ * Each URL is stored in its own JSON file; file mtimes track recency for LRU eviction.
+ */
+export class CrawlCache {
+  private readonly dir: string;
+  private readonly maxSizeBytes: number;
+  private readonly maxAgeMs: number;
+  readonly trustLastmod: boolean;
+
+  constructor(options: CrawlCacheOptions, rootDir: string, private readonly logger?: Logger) {
+    this.dir = path.resolve(rootDir, options.dir || DEFAULT_CRAWL_CACHE_DIR);
+    this.trustLastmod = options.trustLastmod ?? true;
+    this.maxSizeBytes = options.maxSizeBytes ?? 100 * 1024 * 1024;
+    this.maxAgeMs = options.maxAgeMs ?? 7 * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Read the entry for a URL; expired or unreadable entries count as misses
+   */
+  async get(url: string): Promise<CrawlCacheEntry | null> {
+    const filePath = this.getFilePath(url);
+
+    try {
+      const entry = JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as CrawlCacheEntry;
+      if (entry.url !== url || this.isExpired(entry.storedAt)) {
+        return null;
+      }
+
+      entry.result.timestamp = new Date(entry.result.timestamp);
+      // Touch the file so eviction sees it as recently used
+      const now = new Date();
+      await fs.promises.utimes(filePath, now, now);
+      return entry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger?.debug(`Ignoring unreadable cache entry for ${url}`, error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Store an entry, writing through a temporary file so readers never see partial JSON
+   */
+  async set(entry: CrawlCacheEntry): Promise<void> {
+    const filePath = this.getFilePath(entry.url);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    try {
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      await fs.promises.writeFile(tempPath, JSON.stringify(entry), 'utf8');
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      this.logger?.warn(`Failed to write cache entry for ${entry.url}`, error);
+    }
+  }
+
+  /**
+   * Remove expired entries, then evict least recently used entries until under maxSizeBytes
+   */
+  async prune(): Promise<void> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(this.dir);
+    } catch {
+      return;
+    }
+
+    const files: { filePath: string; size: number; mtimeMs: number }[] = [];
+    for (const name of names.filter(name => name.endsWith('.json'))) {
+      const filePath = path.join(this.dir, name);
+      try {
+        const stat = await fs.promises.stat(filePath);
+        files.push({ filePath, size: stat.size, mtimeMs: stat.mtimeMs });
+      } catch {
+        // Removed concurrently
+      }
+    }
+
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    let totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    let removed = 0;
+
+    for (const file of files) {
+      if (totalSize <= this.maxSizeBytes && !this.isExpired(file.mtimeMs)) {
+        continue;
+      }
+      await fs.promises.rm(file.filePath, { force: true });
+      totalSize -= file.size;
+      removed++;
+    }
+
+    if (removed > 0) {
+      this.logger?.info(`Evicted ${removed} crawl cache entries from ${this.dir}`);
+    }
+  }
+
+  /**
+   * Whether an entry stored at the given time is past maxAgeMs
+   */
+  private isExpired(storedAt: number): boolean {
+    return this.maxAgeMs > 0 && Date.now() - storedAt > this.maxAgeMs;
+  }
+
+  /**
+   * Cache file for a URL
+   */
+  private getFilePath(url: string): string {
+    const hash = crypto.createHash('sha256').update(url).digest('hex');
+    return path.join(this.dir, `${hash}.json`);
+  }
+}
@@ -0,0 +1,212 @@
+import { Readability } from "@mozilla/readability";
+import type { ExtractedContent, ExtractionContext, Extractor, Logger } from './types.js';
+
+/**
+ * Lowest quality score a result needs to win the chain (50 characters with the default score)
+ */
+export const MIN_EXTRACTION_SCORE = 0.1;
+
+/**
+ * Default quality score: content length, saturating at 500 characters
+ */
+export function contentLengthScore(content: string): number {
+  return Math.min(1, content.trim().length / 500);
+}
+
+/**
+ * Mozilla Readability, skipped when disabled globally or by an extraction rule
+ */
+export const readabilityExtractor: Extractor = {
+  name: 'readability',
+  canHandle: context => context.useReadability,
+  extract(context: ExtractionContext): ExtractedContent | null {
+    const article = new Readability(context.document).parse();
+    if (!article) return null;
+
+    return {
+      title: article.title || context.document.title || context.url,
+      content: context.toMarkdown(article.content || '')
+    };
+  }
+};
+
+/**
+ * First semantic landmark (main, article, role=main, ...) with enough content
+ */
+export const semanticSelectorExtractor: Extractor = {
+  name: 'semantic-selectors',
+  extract: context => extractFirstSelector(context, [
+    'main',
+    'article',
+    '[role="main"]',
+    '.content',
+    '.post-content',
+    '.entry-content',
+    '.article-content',
+    '.page-content'
+  ])
+};
+
+/**
+ * First common documentation/blog content container with enough content
+ */
+export const contentSelectorExtractor: Extractor = {
+  name: 'content-selectors',
+  extract: context => extractFirstSelector(context, [
+    '.markdown-body',
+    '.prose',
+    '.documentation',
+    '.docs-content',
+    '.wiki-content',
+    '.readme',
+    '.post-body',
+    '.entry-body'
+  ])
+};
+
+/**
+ * Meta description, Open Graph and JSON-LD text
+ */
+export const metadataExtractor: Extractor = {
+  name: 'metadata',
+  extract(context: ExtractionContext): ExtractedContent | null {
+    const { document } = context;
+    const title = document.title || context.url;
+    let content = '';
+
+    const metaDescription = document.querySelector('meta[name="description"]')?.getAttribute('content');
+    if (metaDescription) {
+      content += `Description: ${metaDescription}\n\n`;
+    }
+
+    const ogTitle = document.querySelector('meta[property="og:title"]')?.getAttribute('content');
+    const ogDescription = document.querySelector('meta[property="og:description"]')?.getAttribute('content');
+    if (ogTitle && ogTitle !== title) {
+      content += `Title: ${ogTitle}\n\n`;
+    }
+    if (ogDescription && ogDescription !== metaDescription) {
+      content += `Summary: ${ogDescription}\n\n`;
+    }
+
+    document.querySelectorAll('script[type="application/ld+json"]').forEach((script: Element) => {
+      try {
+        const data = JSON.parse(script.textContent || '');
+        if (data.description) {
+          content += `Structured Description: ${data.description}\n\n`;
+        }
+        if (data.text) {
+          content += `Content: ${data.text}\n\n`;
+        }
+      } catch {
+        // Ignore invalid JSON-LD
+      }
+    });
+
+    return { title, content: content.trim() };
+  }
+};
+
+/**
+ * Body text without navigation, footer and sidebar elements
+ */
+export const rawTextExtractor: Extractor = {
+  name: 'raw-text',
+  extract(context: ExtractionContext): ExtractedContent | null {
+    const { document } = context;
+    document.querySelectorAll('nav, footer, aside, .sidebar, .navigation, .menu, .header, .footer')
+      .forEach((element: Element) => element.remove());
+
+    return {
+      title: document.title || context.url,
+      content: (document.body?.textContent || '').replace(/\s+/g, ' ').trim()
+    };
+  }
+};
+
+/**
+ * Built-in extractors in fallback order
+ */
+export const BUILT_IN_EXTRACTORS: Extractor[] = [
+  readabilityExtractor,
+  semanticSelectorExtractor,
+  contentSelectorExtractor,
+  metadataExtractor,
+  rawTextExtractor
+];
+
+/**
+ * Ordered extractor fallback chain; the first result reaching MIN_EXTRACTION_SCORE wins
+ */
+export class ExtractorChain {
+  private readonly extractors: Extractor[];
+  private insertedAtFront = 0;
+
+  constructor(extractors: Extractor[] = BUILT_IN_EXTRACTORS, private readonly logger?: Logger) {
+    this.extractors = [...extractors];
+  }
+
+  /**
+   * Add an extractor before or after a named one; without a placement it goes ahead of the
+   * initial extractors, after any added the same way
+   */
+  insert(extractor: Extractor, placement: { before?: string; after?: string } = {}): void {
+    const anchor = placement.before ?? placement.after;
+    if (anchor === undefined) {
+      this.extractors.splice(this.insertedAtFront++, 0, extractor);
+      return;
+    }
+
+    const index = this.extractors.findIndex(candidate => candidate.name === anchor);
+    if (index === -1) {
+      throw new Error(`Cannot place extractor ${extractor.name}: no extractor named ${anchor}`);
+    }
+    this.extractors.splice(placement.before !== undefined ? index : index + 1, 0, extractor);
+  }
+
+  /**
+   * Extractor names in the order they are tried
+   */
+  get names(): string[] {
+    return this.extractors.map(extractor => extractor.name);
+  }
+
+  /**
+   * Run the chain; returns the winning result and extractor name, or null when every extractor fails
+   */
+  run(context: ExtractionContext): (ExtractedContent & { extractor: string }) | null {
+    for (const extractor of this.extractors) {
+      if (extractor.canHandle && !extractor.canHandle(context)) continue;
+
+      try {
+        const result = extractor.extract(context);
+        if (!result) continue;
+
+        const score = extractor.score ? extractor.score(result, context) : contentLengthScore(result.content);
+        if (score >= MIN_EXTRACTION_SCORE) {
+          this.logger?.debug(`Content extracted from ${context.url} with ${extractor.name} (score ${score.toFixed(2)})`);
+          return { ...result, extractor: extractor.name };
+        }
+        this.logger?.debug(`Extractor ${extractor.name} scored ${score.toFixed(2)} on ${context.url}, trying the next one`);
+      } catch (error) {
+        this.logger?.debug(`Extractor ${extractor.name} failed on ${context.url}:`, error);
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Markdown of the first selector match with enough content
+ */
+function extractFirstSelector(context: ExtractionContext, selectors: string[]): ExtractedContent | null {
+  for (const selector of selectors) {
+    const element = context.document.querySelector(selector);
+    if (!element) continue;
+
+    const content = context.toMarkdown(element.innerHTML);
+    if (contentLengthScore(content) >= MIN_EXTRACTION_SCORE) {
+      return { title: context.document.title || context.url, content };
+    }
+  }
+  return null;
+}
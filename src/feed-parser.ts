@@ -0,0 +1,154 @@
+import { JSDOM } from "jsdom";
+import type { FeedEntry, Logger } from './types.js';
+import { ErrorType, GeneratorError } from './types.js';
+
+/**
+ * Parser for RSS 2.0 (and RSS 1.0/RDF) and Atom feeds
+ */
+export class FeedParser {
+  constructor(private readonly logger?: Logger) {}
+
+  /**
+   * Parse feed XML into entries with absolute URLs
+   */
+  parse(xml: string, feedUrl: string): FeedEntry[] {
+    const document = this.parseXml(xml, feedUrl);
+    const root = document.documentElement;
+
+    if (root.localName === 'feed') {
+      return this.parseAtom(root, feedUrl);
+    }
+    if (root.localName === 'rss' || root.localName === 'RDF') {
+      return this.parseRss(root, feedUrl);
+    }
+
+    throw new GeneratorError(
+      `Unrecognized feed format <${root.localName}>`,
+      ErrorType.PARSE_ERROR,
+      feedUrl
+    );
+  }
+
+  /**
+   * Parse RSS <item> elements
+   */
+  private parseRss(root: Element, feedUrl: string): FeedEntry[] {
+    const entries: FeedEntry[] = [];
+
+    for (const item of Array.from(root.getElementsByTagNameNS('*', 'item'))) {
+      const link = this.childText(item, 'link') ||
+        (this.childElement(item, 'guid')?.getAttribute('isPermaLink') !== 'false' ? this.childText(item, 'guid') : undefined);
+      const url = this.toAbsoluteUrl(link, feedUrl);
+      if (!url) {
+        this.logger?.debug(`Skipping feed item without a link in ${feedUrl}`);
+        continue;
+      }
+
+      entries.push(this.createEntry(
+        url,
+        this.childText(item, 'title'),
+        this.childText(item, 'description'),
+        this.childText(item, 'pubDate') || this.childText(item, 'date')
+      ));
+    }
+
+    return entries;
+  }
+
+  /**
+   * Parse Atom <entry> elements
+   */
+  private parseAtom(root: Element, feedUrl: string): FeedEntry[] {
+    const entries: FeedEntry[] = [];
+
+    for (const entry of Array.from(root.children).filter(child => child.localName === 'entry')) {
+      const links = Array.from(entry.children).filter(child => child.localName === 'link');
+      const link = links.find(candidate => (candidate.getAttribute('rel') || 'alternate') === 'alternate') || links[0];
+      const url = this.toAbsoluteUrl(link?.getAttribute('href'), feedUrl);
+      if (!url) {
+        this.logger?.debug(`Skipping feed entry without a link in ${feedUrl}`);
+        continue;
+      }
+
+      entries.push(this.createEntry(
+        url,
+        this.childText(entry, 'title'),
+        this.childText(entry, 'summary') || this.childText(entry, 'content'),
+        this.childText(entry, 'updated') || this.childText(entry, 'published')
+      ));
+    }
+
+    return entries;
+  }
+
+  /**
+   * Build a feed entry, dropping empty or unparseable fields
+   */
+  private createEntry(url: string, title?: string, summary?: string, date?: string): FeedEntry {
+    const entry: FeedEntry = { url };
+    const plainTitle = title ? this.toPlainText(title) : '';
+    const plainSummary = summary ? this.toPlainText(summary) : '';
+
+    if (plainTitle) entry.title = plainTitle;
+    if (plainSummary) entry.summary = plainSummary;
+    if (date && !Number.isNaN(Date.parse(date))) {
+      entry.date = new Date(date).toISOString();
+    }
+    return entry;
+  }
+
+  /**
+   * Parse the XML string into a DOM document
+   */
+  private parseXml(xml: string, feedUrl: string): Document {
+    try {
+      return new JSDOM(xml.replace(/^\uFEFF/, '').trimStart(), { contentType: 'text/xml' }).window.document;
+    } catch (error) {
+      throw new GeneratorError(
+        `Invalid feed XML: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ErrorType.PARSE_ERROR,
+        feedUrl,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * First direct child with the given local name
+   */
+  private childElement(element: Element, localName: string): Element | undefined {
+    return Array.from(element.children).find(child => child.localName === localName);
+  }
+
+  /**
+   * Trimmed text of the first direct child with the given local name
+   */
+  private childText(element: Element, localName: string): string | undefined {
+    return this.childElement(element, localName)?.textContent?.trim() || undefined;
+  }
+
+  /**
+   * Strip markup from HTML-bearing fields such as RSS descriptions
+   */
+  private toPlainText(value: string): string {
+    const text = /[<&]/.test(value)
+      ? JSDOM.fragment(`<div>${value}</div>`).textContent || ''
+      : value;
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Resolve a link against the feed URL, accepting only http(s)
+   */
+  private toAbsoluteUrl(value: string | null | undefined, feedUrl: string): string | undefined {
+    const trimmed = value?.trim();
+    if (!trimmed) return undefined;
+
+    try {
+      const url = new URL(trimmed, feedUrl);
+      return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
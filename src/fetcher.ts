@@ -0,0 +1,253 @@
+import http from "node:http";
+import https from "node:https";
+import zlib from "node:zlib";
+import { Readable } from "node:stream";
+import { HttpProxyAgent } from "http-proxy-agent";
+import { HttpsProxyAgent } from "https-proxy-agent";
+import type { Fetcher, FetcherRequest, FetcherResponse, ResolvedProxyConfig } from './types.js';
+import { ErrorType, GeneratorError } from './types.js';
+import { decodeBody } from './charset.js';
+import { getProxyForUrl, needsCustomTransport } from './proxy.js';
+
+/**
+ * Redirect limit, matching fetch
+ */
+const MAX_REDIRECTS = 20;
+
+/**
+ * Headers that must not follow a redirect to another origin
+ */
+const CREDENTIAL_HEADERS = ['authorization', 'cookie'];
+
+/**
+ * Default fetcher backed by the global fetch implementation
+ */
+export class DefaultFetcher implements Fetcher {
+  async fetch(request: FetcherRequest): Promise<FetcherResponse> {
+    const init: RequestInit = {
+      method: request.method || 'GET',
+      redirect: request.redirect || 'follow',
+      headers: request.headers
+    };
+    if (request.body !== undefined) init.body = request.body;
+    if (request.signal) init.signal = request.signal;
+
+    const response = await fetch(request.url, init);
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      body: response.body,
+      url: response.url || request.url
+    };
+  }
+}
+
+/**
+ * Fetcher built on node:http/https, used when requests must go through a proxy
+ * or trust a custom CA bundle (global fetch supports neither on Node 18/20)
+ */
+export class NodeHttpFetcher implements Fetcher {
+  private readonly agents = new Map<string, http.Agent>();
+
+  constructor(private readonly config: ResolvedProxyConfig) {}
+
+  async fetch(request: FetcherRequest): Promise<FetcherResponse> {
+    let url = new URL(request.url);
+    let method = request.method || 'GET';
+    let body = request.body;
+    const headers = { ...request.headers };
+
+    for (let redirects = 0; ; redirects++) {
+      const response = await this.send(url, method, headers, body, request.signal);
+      const location = response.headers.location;
+      const isRedirect = [301, 302, 303, 307, 308].includes(response.statusCode || 0);
+
+      if (!isRedirect || !location || request.redirect === 'manual') {
+        return this.toFetcherResponse(response, url);
+      }
+
+      response.resume();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new GeneratorError(`Too many redirects`, ErrorType.NETWORK_ERROR, request.url);
+      }
+
+      const next = new URL(location, url);
+      if (response.statusCode === 303 || (method === 'POST' && response.statusCode !== 307 && response.statusCode !== 308)) {
+        method = 'GET';
+        body = undefined;
+      }
+      if (next.origin !== url.origin) {
+        Object.keys(headers)
+          .filter(name => CREDENTIAL_HEADERS.includes(name.toLowerCase()))
+          .forEach(name => delete headers[name]);
+      }
+      url = next;
+    }
+  }
+
+  /**
+   * Send one request and resolve once response headers arrive
+   */
+  private send(
+    url: URL,
+    method: string,
+    headers: Record<string, string>,
+    body: string | undefined,
+    signal: AbortSignal | undefined
+  ): Promise<http.IncomingMessage> {
+    const client = url.protocol === 'https:' ? https : http;
+    const options: https.RequestOptions = {
+      method,
+      headers: { 'Accept-Encoding': 'gzip, deflate, br', ...headers },
+      agent: this.getAgent(url)
+    };
+    if (signal) options.signal = signal;
+    if (this.config.ca) options.ca = this.config.ca;
+
+    return new Promise((resolve, reject) => {
+      const req = client.request(url, options, resolve);
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+
+  /**
+   * Proxy agent for the URL, or a plain agent (carrying the CA bundle) for direct connections
+   */
+  private getAgent(url: URL): http.Agent {
+    const proxy = getProxyForUrl(url.toString(), this.config);
+    const key = `${url.protocol}${proxy || ''}`;
+
+    let agent = this.agents.get(key);
+    if (!agent) {
+      const tlsOptions = this.config.ca ? { ca: this.config.ca } : {};
+      if (proxy) {
+        agent = url.protocol === 'https:'
+          ? new HttpsProxyAgent(proxy, { keepAlive: true, ...tlsOptions })
+          : new HttpProxyAgent(proxy, { keepAlive: true });
+      } else {
+        agent = url.protocol === 'https:'
+          ? new https.Agent({ keepAlive: true, ...tlsOptions })
+          : new http.Agent({ keepAlive: true });
+      }
+      this.agents.set(key, agent);
+    }
+    return agent;
+  }
+
+  /**
+   * Wrap a Node response, decompressing the body like fetch does
+   */
+  private toFetcherResponse(response: http.IncomingMessage, url: URL): FetcherResponse {
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(response.headers)) {
+      if (Array.isArray(value)) {
+        value.forEach(item => headers.append(name, item));
+      } else if (value !== undefined) {
+        headers.set(name, value);
+      }
+    }
+
+    const encoding = (response.headers['content-encoding'] || '').toLowerCase();
+    let stream: Readable = response;
+    if (encoding === 'gzip' || encoding === 'x-gzip') {
+      stream = response.pipe(zlib.createGunzip());
+    } else if (encoding === 'deflate') {
+      stream = response.pipe(zlib.createInflate());
+    } else if (encoding === 'br') {
+      stream = response.pipe(zlib.createBrotliDecompress());
+    }
+    if (stream !== response) {
+      response.on('error', error => stream.destroy(error));
+    }
+
+    return {
+      status: response.statusCode || 0,
+      statusText: response.statusMessage || '',
+      headers,
+      body: Readable.toWeb(stream) as ReadableStream<Uint8Array>,
+      url: url.toString()
+    };
+  }
+}
+
+/**
+ * Default fetcher for the given proxy settings: global fetch unless a proxy or CA bundle is configured
+ */
+export function createDefaultFetcher(config: ResolvedProxyConfig): Fetcher {
+  return needsCustomTransport(config) ? new NodeHttpFetcher(config) : new DefaultFetcher();
+}
+
+/**
+ * Check whether a response has a 2xx status
+ */
+export function isSuccessStatus(status: number): boolean {
+  return status >= 200 && status < 300;
+}
+
+/**
+ * Read the full response body into a Buffer, aborting the stream once maxBytes is exceeded
+ */
+export async function readResponseBody(response: FetcherResponse, maxBytes = Infinity): Promise<Buffer> {
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > maxBytes) {
+    await discardResponseBody(response);
+    throw tooLargeError(response, maxBytes);
+  }
+
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const chunks: Uint8Array[] = [];
+  const reader = response.body.getReader();
+  let totalBytes = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (!value) continue;
+
+    totalBytes += value.length;
+    if (totalBytes > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      throw tooLargeError(response, maxBytes);
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Read the full response body as text, decoded with the charset from the BOM,
+ * Content-Type or <meta charset>
+ */
+export async function readResponseText(response: FetcherResponse, maxBytes = Infinity): Promise<string> {
+  const body = await readResponseBody(response, maxBytes);
+  return decodeBody(body, response.headers.get('content-type'));
+}
+
+/**
+ * Release a response body that will not be read
+ */
+export async function discardResponseBody(response: FetcherResponse): Promise<void> {
+  try {
+    await response.body?.cancel();
+  } catch {
+    // Ignore errors from already-consumed or errored streams
+  }
+}
+
+/**
+ * Error for a body larger than the configured limit
+ */
+function tooLargeError(response: FetcherResponse, maxBytes: number): GeneratorError {
+  return new GeneratorError(
+    `Response exceeds ${maxBytes} bytes`,
+    ErrorType.CONTENT_TOO_LARGE,
+    response.url
+  );
+}
@@ -0,0 +1,42 @@
+import type { FrontmatterResult } from './types.js';
+
+/**
+ * Split YAML (---) or TOML (+++) frontmatter from a Markdown/MDX document.
+ * Only flat scalar keys are supported, which covers title/summary/date style metadata.
+ */
+export function parseFrontmatter(content: string): FrontmatterResult {
+  const source = content.replace(/^\uFEFF/, '');
+  const match = source.match(/^\s*(---|\+\+\+)[ \t]*\r?\n([\s\S]*?)\r?\n\1[ \t]*(?:\r?\n|$)/);
+
+  if (!match) {
+    return { data: {}, body: source };
+  }
+
+  const separator = match[1] === '+++' ? '=' : ':';
+  const data: Record<string, string> = {};
+
+  for (const line of (match[2] || '').split(/\r?\n/)) {
+    const index = line.indexOf(separator);
+    // Skip nested structures, list items and comments
+    if (index <= 0 || /^\s/.test(line) || line.trimStart().startsWith('#')) continue;
+
+    const key = line.slice(0, index).trim();
+    const value = line.slice(index + 1).trim().replace(/^(['"])(.*)\1$/, '$2');
+    if (key && value) {
+      data[key] = value;
+    }
+  }
+
+  return { data, body: source.slice(match[0].length) };
+}
+
+/**
+ * Return the first non-empty frontmatter value among the given keys
+ */
+export function pickFrontmatterValue(data: Record<string, string>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = data[key];
+    if (value) return value;
+  }
+  return undefined;
+}
@@ -1,9 +1,12 @@
 import fs from "node:fs";
 import path from "node:path";
+import zlib from "node:zlib";
+import { promisify } from "node:util";
+import { setMaxListeners } from "node:events";
 import { JSDOM } from "jsdom";
 import { Readability } from "@mozilla/readability";
 import TurndownService from "turndown";
-import { URL } from "url";
+import { URL, pathToFileURL } from "url";
 import type {
   GeneratorOptions,
   ExtendedGeneratorOptions,
@@ -13,12 +16,28 @@ import type {
   ExtractionConfig,
   Logger,
   SitemapUrl,
+  SitemapDiagnostic,
+  SitemapCandidate,
+  SitemapSource,
+  SitemapEntry,
+  SitemapFunction,
+  SitemapVideo,
   DocumentMetadata,
   DiscoveredUrl,
   ContentCleaningConfig,
   FileSystemResult,
   DiscoveredFile,
-  FileDiscoveryStats
+  FileDiscoveryStats,
+  BuildOutputPage,
+  FetcherResponse,
+  FetchRequestOptions,
+  CrawlCacheEntry,
+  ManifestEntry,
+  GenerationStopReason,
+  ContentHandler,
+  ContentHandlerResult,
+  ExtractionRule,
+  TitleSource
 } from './types.js';
 import {
   ConsoleLogger,
@@ -26,6 +45,32 @@ import {
   GeneratorError
 } from "./types.js";
 import { ContentFilter } from './content-filter.js';
+import { SitemapParser, MAX_SITEMAP_BYTES, WELL_KNOWN_SITEMAPS } from './sitemap-parser.js';
+import { RobotsTxt } from './robots.js';
+import { FeedParser } from './feed-parser.js';
+import { OpenApiRenderer } from './openapi.js';
+import { addCodeBlockRules, normalizeCodeBlocks } from './code-blocks.js';
+import { addGfmRules, markTaskListItems } from './gfm.js';
+import { BUILT_IN_EXTRACTORS, ExtractorChain } from './extractors.js';
+import {
+  createDefaultFetcher,
+  discardResponseBody,
+  isSuccessStatus,
+  readResponseBody,
+  readResponseText
+} from './fetcher.js';
+import { RetryPolicy } from './retry-policy.js';
+import { RateLimiter } from './rate-limiter.js';
+import { CrawlCache } from './crawl-cache.js';
+import { getExtractionVersion, loadManifest, writeManifest } from './manifest.js';
+import { AuthManager, RedactingLogger } from './auth.js';
+import { resolveProxyConfig } from './proxy.js';
+import { BUILT_IN_CONTENT_HANDLERS, ContentHandlerRegistry } from './content-handlers.js';
+import { parseFrontmatter, pickFrontmatterValue } from './frontmatter.js';
+import { discoverBuildOutputPages, DEFAULT_BUILD_OUTPUT_DIRS } from './build-output.js';
+import { discoverSourceRoutes, expandDynamicRoute, DEFAULT_ROUTE_DIRS } from './route-discovery.js';
+
+const gunzip = promisify(zlib.gunzip);
 
 /**
  * Core class for generating LLM-friendly content from websites
@@ -35,12 +80,36 @@ export class LLMSGenerator {
   private readonly logger: Logger;
   private readonly turndownService: TurndownService;
   private readonly extractionConfig: ExtractionConfig;
+  private readonly sitemapParser: SitemapParser;
+  private readonly feedParser: FeedParser;
+  private readonly openApiRenderer: OpenApiRenderer;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly rateLimiter: RateLimiter;
+  private readonly crawlCache: CrawlCache | null;
+  private readonly auth: AuthManager;
+  private readonly contentHandlers: ContentHandlerRegistry;
+  private readonly extractorChain: ExtractorChain;
+  private robotsTxt: RobotsTxt | null | undefined;
+  private stopController = this.createStopController();
+  private stopReason: GenerationStopReason | null = null;
+  private lastStats: GenerationStats | null = null;
 
   constructor(userOptions: ExtendedGeneratorOptions = {}) {
     this.options = this.mergeWithDefaults(userOptions);
-    this.logger = this.options.logger || new ConsoleLogger();
+    this.logger = new RedactingLogger(this.options.logger || new ConsoleLogger(), () => this.getSecrets());
+    this.auth = new AuthManager(this.options.auth, this.options.siteUrl, this.logger);
     this.extractionConfig = this.createExtractionConfig(userOptions.extractionConfig);
     this.turndownService = this.createTurndownService();
+    this.sitemapParser = new SitemapParser(this.logger);
+    this.feedParser = new FeedParser(this.logger);
+    this.openApiRenderer = new OpenApiRenderer(this.logger);
+    this.contentHandlers = new ContentHandlerRegistry([...this.options.contentHandlers, ...BUILT_IN_CONTENT_HANDLERS]);
+    this.extractorChain = this.createExtractorChain();
+    this.retryPolicy = new RetryPolicy(this.options.retryPolicy);
+    this.rateLimiter = new RateLimiter(this.options.rateLimit, this.logger);
+    this.crawlCache = this.options.crawlCache
+      ? new CrawlCache(this.options.crawlCache === true ? {} : this.options.crawlCache, process.cwd(), this.logger)
+      : null;
   }
 
   /**
@@ -48,6 +117,7 @@ export class LLMSGenerator {
    */
   async generate(): Promise<string> {
     const stats = this.createInitialStats();
+    const endRun = this.startRun();
     
     try {
       this.logger.info('Starting LLM content generation', { 
@@ -58,14 +128,9 @@ export class LLMSGenerator {
       // Apply format-specific limits
       this.applyFormatLimits();
       
-      const urls = await this.extractUrls();
-      const filteredUrls = this.filterUrls(urls);
-      
-      this.logger.info(`Processing ${filteredUrls.length} URLs with concurrency ${this.options.concurrency}`);
-      
-      // Discover URLs recursively if enabled
-      const discoveredUrls = await this.discoverUrlsRecursively(filteredUrls);
-      this.logger.info(`Discovered ${discoveredUrls.length} total URLs (including recursive discovery)`);
+      const collectedResults = this.options.source === 'build'
+        ? await this.collectBuildOutputPages()
+        : await this.collectCrawledPages(stats);
       
       // Discover files from file system if enabled
       const fileSystemResult = await this.discoverFilesFromFileSystem();
@@ -73,16 +138,10 @@ export class LLMSGenerator {
         this.logger.info(`Discovered ${fileSystemResult.totalFiles} files from file system`);
       }
       
-      // Convert discovered URLs back to SitemapUrl format for compatibility
-    const sortedUrls = this.sortUrls(discoveredUrls.map(url => {
-      const sitemapUrl: SitemapUrl = { loc: url.url };
-      if (url.lastmod) {
-        sitemapUrl.lastmod = url.lastmod;
-      }
-      return sitemapUrl;
-    }));
-      
-      const pageResults = await this.crawlPages(sortedUrls);
+      // Render file system documents and merge them with the collected pages
+      const fileResults = await this.renderDiscoveredFiles(fileSystemResult.files);
+      const apiResults = await this.renderOpenApiSpecs();
+      const pageResults = [...this.mergeFileResults(collectedResults, fileResults), ...apiResults];
       
       // Apply content filtering and categorization
       const filteredResults = this.applyContentFiltering(pageResults);
@@ -94,6 +153,11 @@ export class LLMSGenerator {
       const pagesContent = this.generatePagesContent(processedResults);
       
       const metadata = this.createDocumentMetadata(processedResults.length);
+      if (this.stopReason) {
+        metadata.partial = this.stopReason;
+        stats.partial = true;
+        stats.stopReason = this.stopReason;
+      }
       const header = this.generateLlmsFullHeader(metadata);
       const toc = this.generateTableOfContents(processedResults);
       
@@ -106,50 +170,756 @@ export class LLMSGenerator {
       stats.failedPages = pageResults.filter(p => !p.success).length;
       stats.totalContentLength = finalContent.length;
       
-      this.logger.info('Generation completed', stats);
+      this.lastStats = stats;
+      this.logger.info(stats.partial ? 'Generation stopped early, output is partial' : 'Generation completed', stats);
       
       return finalContent;
     } catch (error) {
       this.logger.error('Generation failed', error);
       throw error;
+    } finally {
+      endRun();
     }
   }
 
   /**
-   * Extract URLs from sitemap(s)
+   * Statistics from the most recent generate() run
    */
-  private async extractUrls(): Promise<SitemapUrl[]> {
-    this.logger.info(`Starting sitemap extraction:`, {
-      sitemapUrl: this.options.sitemapUrl,
-      siteUrl: this.options.siteUrl
+  getLastStats(): GenerationStats | null {
+    return this.lastStats;
+  }
+
+  /**
+   * Arm the abort signal and deadline for a generate() run; returns a function that disarms them
+   */
+  private startRun(): () => void {
+    this.stopController = this.createStopController();
+    this.stopReason = null;
+    
+    const { signal, deadlineMs } = this.options;
+    const onAbort = () => this.stop('aborted');
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+    const deadlineTimer = deadlineMs > 0 ? setTimeout(() => this.stop('deadline'), deadlineMs) : null;
+    
+    return () => {
+      signal.removeEventListener('abort', onAbort);
+      if (deadlineTimer) clearTimeout(deadlineTimer);
+    };
+  }
+
+  /**
+   * Controller aborted when the run stops; every in-flight request and wait listens to it
+   */
+  private createStopController(): AbortController {
+    const controller = new AbortController();
+    setMaxListeners(0, controller.signal);
+    return controller;
+  }
+
+  /**
+   * Stop discovery and crawling, aborting in-flight requests
+   */
+  private stop(reason: GenerationStopReason): void {
+    if (this.stopReason) return;
+    
+    this.stopReason = reason;
+    this.logger.warn(reason === 'deadline'
+      ? `Deadline of ${this.options.deadlineMs}ms reached, stopping with the pages completed so far`
+      : 'Generation aborted, stopping with the pages completed so far');
+    this.stopController.abort();
+  }
+
+  /**
+   * Whether the current run has been stopped
+   */
+  private get isStopped(): boolean {
+    return this.stopReason !== null;
+  }
+
+  /**
+   * Error for requests that were not made or were cut off because the run stopped
+   */
+  private createStoppedError(url: string): GeneratorError {
+    return new GeneratorError(`Generation stopped (${this.stopReason})`, ErrorType.ABORTED, url);
+  }
+
+  /**
+   * Discover URLs from sitemaps and links, then crawl them over HTTP
+   */
+  private async collectCrawledPages(stats: GenerationStats): Promise<PageResult[]> {
+    if (this.options.respectRobots) {
+      await this.applyRobotsPolicy();
+    }
+    
+    const sitemapUrls = await this.extractUrls(stats);
+    const seedUrls = [
+      ...await this.extractFeedUrls(),
+      ...await this.discoverRoutes()
+    ];
+    const filteredUrls = this.filterUrls(this.mergeDiscoveredUrls(sitemapUrls, seedUrls));
+    
+    this.logger.info(`Processing ${filteredUrls.length} URLs with concurrency ${this.options.concurrency}`);
+    
+    // Discover URLs recursively if enabled
+    const discoveredUrls = await this.discoverUrlsRecursively(filteredUrls, seedUrls);
+    this.logger.info(`Discovered ${discoveredUrls.length} total URLs (including recursive discovery)`);
+    
+    // Convert discovered URLs back to SitemapUrl format for compatibility
+    const sortedUrls = this.sortUrls(discoveredUrls.map(url => {
+      const sitemapUrl: SitemapUrl = { loc: url.url };
+      if (url.lastmod) {
+        sitemapUrl.lastmod = url.lastmod;
+      }
+      if (url.title) sitemapUrl.title = url.title;
+      if (url.summary) sitemapUrl.summary = url.summary;
+      return sitemapUrl;
+    }));
+    
+    const results = this.options.manifestPath
+      ? await this.crawlIncrementally(sortedUrls, path.resolve(this.options.manifestPath))
+      : await this.crawlPages(sortedUrls);
+    
+    if (this.crawlCache) {
+      const reused = results.filter(result => result.fromCache).length;
+      this.logger.info(`Reused ${reused} of ${results.length} pages from the crawl cache`);
+      await this.crawlCache.prune();
+    }
+    
+    return results;
+  }
+
+  /**
+   * Crawl only new pages and pages whose lastmod advanced, splicing the rest from the previous
+   * run's manifest, then record this run in the manifest
+   */
+  private async crawlIncrementally(urls: SitemapUrl[], manifestPath: string): Promise<PageResult[]> {
+    const extractionVersion = this.getExtractionVersion();
+    const manifest = await loadManifest(manifestPath, this.logger);
+    const previous = new Map<string, ManifestEntry>();
+    
+    if (manifest && manifest.siteUrl === this.options.siteUrl && manifest.extractionVersion === extractionVersion) {
+      manifest.pages.forEach(entry => previous.set(entry.url, entry));
+    } else if (manifest) {
+      this.logger.info(`Manifest ${manifestPath} was generated with different settings, crawling all pages`);
+    }
+    
+    const spliced = new Map<string, PageResult>();
+    const toCrawl: SitemapUrl[] = [];
+    for (const urlEntry of urls) {
+      const entry = previous.get(urlEntry.loc);
+      if (entry && this.isUnchangedSinceManifest(urlEntry, entry)) {
+        const result: PageResult = { ...entry.result };
+        if (urlEntry.lastmod) result.lastmod = urlEntry.lastmod;
+        spliced.set(urlEntry.loc, this.applyKnownMetadata(result, urlEntry));
+      } else {
+        toCrawl.push(urlEntry);
+      }
+    }
+    
+    const currentUrls = new Set(urls.map(urlEntry => urlEntry.loc));
+    const removed = Array.from(previous.keys()).filter(url => !currentUrls.has(url)).length;
+    this.logger.info(`Incremental run: reusing ${spliced.size} pages, crawling ${toCrawl.length}, dropping ${removed}`);
+    
+    const crawled = new Map((await this.crawlPages(toCrawl)).map(result => [result.url, result]));
+    const results = urls
+      .map(urlEntry => spliced.get(urlEntry.loc) ?? crawled.get(urlEntry.loc))
+      .filter((result): result is PageResult => result !== undefined);
+    
+    try {
+      // Failed pages are left out so the next run retries them
+      await writeManifest(manifestPath, this.options.siteUrl, extractionVersion, results.filter(result => result.success));
+    } catch (error) {
+      this.logger.warn(`Failed to write manifest ${manifestPath}`, error);
+    }
+    
+    return results;
+  }
+
+  /**
+   * Whether a page can be reused: it succeeded last time and its sitemap lastmod has not advanced.
+   * Pages without a lastmod are always re-crawled.
+   */
+  private isUnchangedSinceManifest(urlEntry: SitemapUrl, entry: ManifestEntry): boolean {
+    if (!entry.result.success || !urlEntry.lastmod || !entry.lastmod) {
+      return false;
+    }
+    
+    const current = Date.parse(urlEntry.lastmod);
+    const recorded = Date.parse(entry.lastmod);
+    if (Number.isNaN(current) || Number.isNaN(recorded)) {
+      return urlEntry.lastmod === entry.lastmod;
+    }
+    return current <= recorded;
+  }
+
+  /**
+   * Extraction version for manifests, covering the options that change extracted content
+   */
+  private getExtractionVersion(): string {
+    return getExtractionVersion({
+      extractionConfig: {
+        ...this.extractionConfig,
+        // RegExp patterns serialize to {} in JSON
+        rules: this.extractionConfig.rules.map(rule => ({ ...rule, urlPattern: String(rule.urlPattern) }))
+      },
+      stripSelectors: this.options.stripSelectors,
+      enableContentCleaning: this.options.enableContentCleaning,
+      enableMultipleExtractionMethods: this.options.enableMultipleExtractionMethods,
+      extractors: this.extractorChain.names
     });
+  }
+
+  /**
+   * Discover page URLs by scanning the app/ and pages/ directories
+   */
+  private async discoverRoutes(): Promise<DiscoveredUrl[]> {
+    if (!this.options.enableRouteDiscovery) {
+      return [];
+    }
+    
+    const routes = await discoverSourceRoutes(this.options.routeDirs, process.cwd(), this.logger);
+    const discovered: DiscoveredUrl[] = [];
+    
+    for (const sourceRoute of routes) {
+      let paths: string[];
+      
+      if (sourceRoute.dynamic) {
+        const paramSets = await this.options.routeParams(sourceRoute.route);
+        paths = paramSets
+          .map(params => expandDynamicRoute(sourceRoute.route, params))
+          .filter((expanded): expanded is string => expanded !== null);
+        
+        if (paths.length === 0) {
+          this.logger.debug(`Skipping dynamic route ${sourceRoute.route}: no params supplied`);
+          continue;
+        }
+      } else {
+        paths = [sourceRoute.route];
+      }
+      
+      for (const routePath of paths) {
+        discovered.push({
+          url: routePath === '/' ? this.options.siteUrl : `${this.options.siteUrl}${routePath}`,
+          depth: 0,
+          discoveryMethod: 'filesystem-route'
+        });
+      }
+    }
+    
+    this.logger.info(`Discovered ${discovered.length} URLs from ${routes.length} source routes`);
+    return discovered;
+  }
+
+  /**
+   * Read entries from the configured RSS/Atom feeds
+   */
+  private async extractFeedUrls(): Promise<DiscoveredUrl[]> {
+    const discovered = new Map<string, DiscoveredUrl>();
+    
+    for (const feedUrl of this.options.feedUrls) {
+      if (this.isStopped) break;
+      
+      try {
+        const response = await this.fetchWithRetry(feedUrl);
+        const entries = this.feedParser.parse(await this.readXmlBody(response, feedUrl), feedUrl);
+        
+        let added = 0;
+        for (const entry of entries) {
+          if (!this.isInternalUrl(entry.url) || discovered.has(entry.url)) continue;
+          
+          const discoveredUrl: DiscoveredUrl = { url: entry.url, depth: 0, discoveryMethod: 'feed' };
+          if (entry.date) discoveredUrl.lastmod = entry.date;
+          if (entry.title) discoveredUrl.title = entry.title;
+          if (entry.summary) discoveredUrl.summary = entry.summary;
+          discovered.set(entry.url, discoveredUrl);
+          added++;
+        }
+        
+        this.logger.info(`Read ${added} URLs from feed ${feedUrl}`, { entries: entries.length });
+      } catch (error) {
+        this.logger.warn(`Failed to read feed ${feedUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    
+    return Array.from(discovered.values());
+  }
+
+  /**
+   * Merge URLs from feeds and source routes into the sitemap URLs.
+   * URLs already listed in a sitemap gain any title, summary and date the other source knows.
+   */
+  private mergeDiscoveredUrls(sitemapUrls: SitemapUrl[], discoveredUrls: DiscoveredUrl[]): SitemapUrl[] {
+    if (discoveredUrls.length === 0) {
+      return sitemapUrls;
+    }
+    
+    const merged = sitemapUrls.map(urlEntry => ({ ...urlEntry }));
+    const byKey = new Map(merged.map(urlEntry => [this.normalizeUrl(urlEntry.loc), urlEntry]));
+    
+    for (const discoveredUrl of discoveredUrls) {
+      const key = this.normalizeUrl(discoveredUrl.url);
+      let urlEntry = byKey.get(key);
+      
+      if (!urlEntry) {
+        urlEntry = { loc: discoveredUrl.url };
+        byKey.set(key, urlEntry);
+        merged.push(urlEntry);
+      }
+      
+      if (discoveredUrl.lastmod && !urlEntry.lastmod) urlEntry.lastmod = discoveredUrl.lastmod;
+      if (discoveredUrl.title && !urlEntry.title) urlEntry.title = discoveredUrl.title;
+      if (discoveredUrl.summary && !urlEntry.summary) urlEntry.summary = discoveredUrl.summary;
+    }
+    
+    this.logger.info(`Added ${merged.length - sitemapUrls.length} URLs from feeds and source routes not listed in sitemaps`);
+    return merged;
+  }
+
+  /**
+   * Read prerendered HTML from the Next.js build output without any network access
+   */
+  private async collectBuildOutputPages(): Promise<PageResult[]> {
+    const pages = await discoverBuildOutputPages(this.options.buildOutputDirs, process.cwd(), this.logger);
+    
+    const urlToPage = new Map(pages.map(page => [
+      page.route === '/' ? this.options.siteUrl : `${this.options.siteUrl}${page.route}`,
+      page
+    ]));
+    
+    let urls = this.sortUrls(Array.from(urlToPage.entries()).map(([loc, page]) => ({
+      loc,
+      lastmod: page.lastModified.toISOString()
+    })));
+    if (this.options.includePatterns.length > 0) {
+      urls = urls.filter(urlEntry => this.matchesAnyPattern(urlEntry.loc, this.options.includePatterns));
+    }
+    if (this.options.excludePatterns.length > 0) {
+      urls = urls.filter(urlEntry => !this.matchesAnyPattern(urlEntry.loc, this.options.excludePatterns));
+    }
+    urls = urls.slice(0, this.options.maxPages);
+    
+    if (urls.length === 0) {
+      this.logger.warn(`No prerendered pages found in ${this.options.buildOutputDirs.join(', ')}. Did you run next build?`);
+    }
+    this.logger.info(`Processing ${urls.length} prerendered pages from build output`);
     
-    const sitemapResult = await this.parseSitemap(this.options.sitemapUrl);
+    const results: PageResult[] = [];
+    for (const urlEntry of urls) {
+      const page = urlToPage.get(urlEntry.loc);
+      if (page) {
+        results.push(await this.readBuildOutputPage(urlEntry.loc, page, urlEntry.lastmod));
+      }
+    }
+    
+    return results;
+  }
+
+  /**
+   * Extract a single prerendered HTML file into a page result
+   */
+  private async readBuildOutputPage(url: string, page: BuildOutputPage, lastmod?: string): Promise<PageResult> {
+    const startTime = new Date();
     
-    this.logger.info(`Sitemap parsing result:`, {
-      isIndex: sitemapResult.isIndex,
-      urlCount: sitemapResult.urls.length,
-      urls: sitemapResult.urls.map(u => u.loc),
-      siteUrl: this.options.siteUrl
+    try {
+      const html = await fs.promises.readFile(page.filePath, 'utf8');
+      const { title, content, language, extractor } = this.extractContent(url, html);
+      
+      const result: PageResult = {
+        url,
+        title,
+        content,
+        success: true,
+        timestamp: startTime,
+        contentLength: content.length,
+        truncated: false,
+        originalLength: content.length
+      };
+      if (lastmod) result.lastmod = lastmod;
+      if (language) result.language = language;
+      if (extractor) result.extractor = extractor;
+      return result;
+    } catch (error) {
+      this.logger.warn(`Failed to extract prerendered page: ${page.filePath}`, error);
+      
+      const result: PageResult = {
+        url,
+        title: 'Skipped',
+        content: `(Parse error: ${error instanceof Error ? error.message : 'Unknown error'})`,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorType: ErrorType.PARSE_ERROR,
+        timestamp: startTime,
+        contentLength: 0,
+        skipReason: 'parse-error',
+        truncated: false
+      };
+      if (lastmod) result.lastmod = lastmod;
+      return result;
+    }
+  }
+
+  /**
+   * Load robots.txt once and apply its Crawl-delay for our user agent
+   */
+  private async applyRobotsPolicy(): Promise<void> {
+    const robots = await this.loadRobotsTxt();
+    if (!robots) return;
+    
+    const crawlDelay = robots.getCrawlDelay(this.options.userAgent);
+    if (crawlDelay !== undefined) {
+      this.rateLimiter.setCrawlDelay(this.options.siteUrl, crawlDelay);
+      this.logger.info(`Honouring robots.txt Crawl-delay of ${crawlDelay}s`);
+    }
+  }
+
+  /**
+   * Fetch and parse the site's robots.txt (cached for the generator's lifetime)
+   */
+  private async loadRobotsTxt(): Promise<RobotsTxt | null> {
+    if (this.robotsTxt !== undefined) {
+      return this.robotsTxt;
+    }
+    
+    const robotsUrl = `${this.options.siteUrl}/robots.txt`;
+    try {
+      const response = await this.fetchWithRetry(robotsUrl, { retries: 0 });
+      this.robotsTxt = new RobotsTxt(await readResponseText(response), robotsUrl);
+      this.logger.info(`Loaded robots.txt`, {
+        robotsUrl,
+        groups: this.robotsTxt.groups.length,
+        sitemaps: this.robotsTxt.sitemaps.length
+      });
+    } catch (error) {
+      // A missing or unreachable robots.txt places no restrictions on crawling
+      const message = `Could not load ${robotsUrl}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      if (this.options.respectRobots) {
+        this.logger.warn(`${message}, crawling without restrictions`);
+      } else {
+        this.logger.debug(message);
+      }
+      this.robotsTxt = null;
+    }
+    
+    return this.robotsTxt;
+  }
+
+  /**
+   * Check if robots.txt disallows crawling a URL
+   */
+  private isBlockedByRobots(url: string): boolean {
+    if (!this.options.respectRobots || !this.robotsTxt) {
+      return false;
+    }
+    return !this.robotsTxt.isAllowed(url, this.options.userAgent);
+  }
+
+  /**
+   * Extract URLs from sitemap(s), following nested sitemap indexes
+   */
+  private async extractUrls(stats: GenerationStats): Promise<SitemapUrl[]> {
+    if (this.options.sitemap) {
+      return this.extractUrlsFromSitemapFunction(stats);
+    }
+    
+    const candidates = await this.discoverSitemaps();
+    
+    this.logger.info(`Starting sitemap extraction:`, {
+      sitemaps: candidates,
+      siteUrl: this.options.siteUrl,
+      maxSitemapDepth: this.options.maxSitemapDepth
     });
     
-    if (sitemapResult.isIndex && sitemapResult.childSitemaps) {
-      this.logger.info(`Found sitemap index with ${sitemapResult.childSitemaps.length} child sitemaps`);
-      const allUrls = new Map<string, SitemapUrl>();
+    const allUrls = new Map<string, SitemapUrl>();
+    const visited = new Set<string>();
+    const urlSources = new Map<SitemapSource, number>();
+    
+    for (const candidate of candidates) {
+      // Well-known probes are often children of an index we already walked
+      if (visited.has(this.getSitemapKey(candidate.url))) {
+        continue;
+      }
       
-      for (const childSitemap of sitemapResult.childSitemaps) {
-        try {
-          const childResult = await this.parseSitemap(childSitemap);
-          childResult.urls.forEach(urlEntry => allUrls.set(urlEntry.loc, urlEntry));
-        } catch (error) {
-          this.logger.warn(`Failed to parse child sitemap: ${childSitemap}`, error);
+      const before = allUrls.size;
+      try {
+        await this.traverseSitemap(candidate.url, 0, undefined, candidate.source, allUrls, visited, stats);
+      } catch (error) {
+        // Only an explicitly configured sitemap is required to exist
+        if (candidate.source === 'option') {
+          throw error;
         }
+        this.logger.debug(`No usable sitemap at ${candidate.url} (${candidate.source})`);
+        continue;
       }
       
-      return Array.from(allUrls.values());
+      const added = allUrls.size - before;
+      urlSources.set(candidate.source, (urlSources.get(candidate.source) || 0) + added);
+      this.logger.info(`Sitemap ${candidate.url} (${candidate.source}) contributed ${added} URLs`);
+    }
+    
+    for (const urlEntry of allUrls.values()) {
+      this.logger.debug(`URL source: ${urlEntry.loc} <- ${urlEntry.sitemap}`);
+    }
+    
+    this.logger.info(`Sitemap traversal completed:`, {
+      sitemapsVisited: stats.sitemaps.length,
+      urlCount: allUrls.size,
+      urlsBySource: Object.fromEntries(urlSources)
+    });
+    
+    return Array.from(allUrls.values());
+  }
+
+  /**
+   * Read URLs from an in-process sitemap function instead of fetching XML
+   */
+  private async extractUrlsFromSitemapFunction(stats: GenerationStats): Promise<SitemapUrl[]> {
+    const label = typeof this.options.sitemap === 'string' ? this.options.sitemap : 'sitemap()';
+    const diagnostic: SitemapDiagnostic = {
+      url: label,
+      depth: 0,
+      source: 'function',
+      status: 'parsed',
+      isIndex: false,
+      urlCount: 0,
+      childCount: 0,
+      durationMs: 0
+    };
+    stats.sitemaps.push(diagnostic);
+    
+    const startTime = Date.now();
+    let entries: SitemapEntry[];
+    
+    try {
+      const sitemapFn = await this.resolveSitemapFunction();
+      entries = await sitemapFn();
+    } catch (error) {
+      diagnostic.status = 'failed';
+      diagnostic.error = error instanceof Error ? error.message : 'Unknown error';
+      throw new GeneratorError(
+        `Failed to read sitemap from ${label}`,
+        ErrorType.PARSE_ERROR,
+        undefined,
+        error as Error
+      );
+    } finally {
+      diagnostic.durationMs = Date.now() - startTime;
+    }
+    
+    const allUrls = new Map<string, SitemapUrl>();
+    for (const entry of entries) {
+      if (!entry?.url || !this.isInternalUrl(entry.url)) continue;
+      if (!allUrls.has(entry.url)) {
+        allUrls.set(entry.url, { ...this.sitemapEntryToUrl(entry), sitemap: label });
+      }
+    }
+    
+    diagnostic.urlCount = allUrls.size;
+    this.logger.info(`Read ${allUrls.size} URLs from ${label}`, {
+      returnedEntries: entries.length
+    });
+    
+    return Array.from(allUrls.values());
+  }
+
+  /**
+   * Resolve the sitemap option to a callable, importing it when given as a module path
+   */
+  private async resolveSitemapFunction(): Promise<SitemapFunction> {
+    const sitemap = this.options.sitemap;
+    if (typeof sitemap === 'function') {
+      return sitemap;
     }
     
-    return sitemapResult.urls;
+    const moduleUrl = pathToFileURL(path.resolve(process.cwd(), sitemap)).href;
+    const module = await import(moduleUrl);
+    const exported = module.default ?? module.sitemap;
+    
+    if (typeof exported !== 'function') {
+      throw new GeneratorError(
+        `Module ${sitemap} does not export a sitemap function`,
+        ErrorType.PARSE_ERROR
+      );
+    }
+    return exported as SitemapFunction;
+  }
+
+  /**
+   * Convert a MetadataRoute-style sitemap entry into a SitemapUrl
+   */
+  private sitemapEntryToUrl(entry: SitemapEntry): SitemapUrl {
+    const urlEntry: SitemapUrl = { loc: entry.url };
+    
+    if (entry.lastModified) {
+      urlEntry.lastmod = entry.lastModified instanceof Date
+        ? entry.lastModified.toISOString()
+        : entry.lastModified;
+    }
+    if (entry.changeFrequency) {
+      urlEntry.changefreq = entry.changeFrequency;
+    }
+    if (entry.priority !== undefined) {
+      urlEntry.priority = String(entry.priority);
+    }
+    
+    const languages = Object.entries(entry.alternates?.languages ?? {});
+    if (languages.length > 0) {
+      urlEntry.alternates = languages.map(([hreflang, href]) => ({ hreflang, href }));
+    }
+    
+    if (entry.images && entry.images.length > 0) {
+      urlEntry.images = entry.images.map(loc => ({ loc }));
+    }
+    
+    if (entry.videos && entry.videos.length > 0) {
+      urlEntry.videos = entry.videos.map(video => {
+        const sitemapVideo: SitemapVideo = {
+          title: video.title,
+          thumbnailLoc: video.thumbnail_loc,
+          description: video.description
+        };
+        if (video.content_loc) sitemapVideo.contentLoc = video.content_loc;
+        if (video.player_loc) sitemapVideo.playerLoc = video.player_loc;
+        if (video.duration !== undefined) sitemapVideo.duration = video.duration;
+        if (video.publication_date) {
+          sitemapVideo.publicationDate = video.publication_date instanceof Date
+            ? video.publication_date.toISOString()
+            : video.publication_date;
+        }
+        if (video.tag) sitemapVideo.tags = [video.tag];
+        return sitemapVideo;
+      });
+    }
+    
+    return urlEntry;
+  }
+
+  /**
+   * Determine which root sitemaps to read
+   */
+  private async discoverSitemaps(): Promise<SitemapCandidate[]> {
+    if (this.options.sitemapUrl) {
+      return [{ url: this.options.sitemapUrl, source: 'option' }];
+    }
+    
+    const defaultSitemap = `${this.options.siteUrl}/sitemap.xml`;
+    if (!this.options.discoverSitemaps) {
+      return [{ url: defaultSitemap, source: 'default' }];
+    }
+    
+    const candidates: SitemapCandidate[] = [];
+    const seen = new Set<string>();
+    const addCandidate = (url: string, source: SitemapSource): void => {
+      const key = this.getSitemapKey(url);
+      if (!seen.has(key)) {
+        seen.add(key);
+        candidates.push({ url, source });
+      }
+    };
+    
+    const robots = await this.loadRobotsTxt();
+    robots?.sitemaps.forEach(url => addCandidate(url, 'robots.txt'));
+    
+    addCandidate(defaultSitemap, 'default');
+    WELL_KNOWN_SITEMAPS.forEach(name => addCandidate(`${this.options.siteUrl}/${name}`, 'well-known'));
+    
+    this.logger.info(`Discovered ${candidates.length} sitemap candidates`, candidates);
+    return candidates;
+  }
+
+  /**
+   * Identity of a sitemap URL for de-duplication
+   */
+  private getSitemapKey(sitemapUrl: string): string {
+    // Only drop the fragment: paginated sitemaps often differ by query string alone
+    return sitemapUrl.split('#')[0] || sitemapUrl;
+  }
+
+  /**
+   * Parse a sitemap and recurse into its children if it is an index
+   */
+  private async traverseSitemap(
+    sitemapUrl: string,
+    depth: number,
+    parentUrl: string | undefined,
+    source: SitemapSource,
+    allUrls: Map<string, SitemapUrl>,
+    visited: Set<string>,
+    stats: GenerationStats
+  ): Promise<void> {
+    const diagnostic: SitemapDiagnostic = {
+      url: sitemapUrl,
+      depth,
+      source,
+      status: 'parsed',
+      isIndex: false,
+      urlCount: 0,
+      childCount: 0,
+      durationMs: 0
+    };
+    if (parentUrl) diagnostic.parentUrl = parentUrl;
+    stats.sitemaps.push(diagnostic);
+    
+    const key = this.getSitemapKey(sitemapUrl);
+    if (visited.has(key)) {
+      this.logger.warn(`Skipping already visited sitemap (cycle): ${sitemapUrl}`);
+      diagnostic.status = 'cycle';
+      return;
+    }
+    visited.add(key);
+    
+    if (depth > this.options.maxSitemapDepth) {
+      this.logger.warn(`Skipping sitemap beyond max depth ${this.options.maxSitemapDepth}: ${sitemapUrl}`);
+      diagnostic.status = 'depth-limit';
+      return;
+    }
+    
+    const startTime = Date.now();
+    let sitemapResult: SitemapResult;
+    
+    try {
+      sitemapResult = await this.parseSitemap(sitemapUrl);
+    } catch (error) {
+      diagnostic.status = 'failed';
+      diagnostic.error = error instanceof Error ? error.message : 'Unknown error';
+      diagnostic.durationMs = Date.now() - startTime;
+      
+      if (this.isStopped) {
+        return;
+      }
+      
+      // Root failures are handled by the caller; broken children are not fatal
+      if (depth === 0) {
+        throw error;
+      }
+      this.logger.warn(`Failed to parse child sitemap: ${sitemapUrl}`, error);
+      return;
+    }
+    
+    diagnostic.durationMs = Date.now() - startTime;
+    diagnostic.isIndex = sitemapResult.isIndex;
+    diagnostic.urlCount = sitemapResult.urls.length;
+    sitemapResult.urls.forEach(urlEntry => {
+      if (!allUrls.has(urlEntry.loc)) {
+        allUrls.set(urlEntry.loc, { ...urlEntry, sitemap: sitemapUrl });
+      }
+    });
+    
+    if (sitemapResult.isIndex && sitemapResult.childSitemaps) {
+      diagnostic.childCount = sitemapResult.childSitemaps.length;
+      this.logger.info(`Found sitemap index with ${sitemapResult.childSitemaps.length} child sitemaps`, {
+        sitemapUrl,
+        depth
+      });
+      
+      for (const childSitemap of sitemapResult.childSitemaps) {
+        if (this.isStopped) break;
+        await this.traverseSitemap(childSitemap, depth + 1, sitemapUrl, source, allUrls, visited, stats);
+      }
+    }
   }
 
   /**
@@ -158,9 +928,15 @@ export class LLMSGenerator {
   private async parseSitemap(sitemapUrl: string): Promise<SitemapResult> {
     try {
       const response = await this.fetchWithRetry(sitemapUrl);
-      const xml = await response.text();
+      const xml = await this.readXmlBody(response, sitemapUrl);
+      
+      const sitemapResult = this.sitemapParser.parse(xml, sitemapUrl);
+      
+      if (sitemapResult.isIndex) {
+        return sitemapResult;
+      }
       
-      const urls = this.extractUrlsFromXml(xml);
+      const urls = sitemapResult.urls;
       this.logger.info(`Extracted URLs from sitemap:`, {
         sitemapUrl,
         extractedUrls: urls,
@@ -168,13 +944,6 @@ export class LLMSGenerator {
         siteUrl: this.options.siteUrl
       });
       
-      const isIndex = urls.some(urlEntry => urlEntry.loc.endsWith('.xml'));
-      
-      if (isIndex) {
-        const childSitemaps = urls.filter(urlEntry => urlEntry.loc.endsWith('.xml')).map(u => u.loc);
-        return { urls: [], isIndex: true, childSitemaps };
-      }
-      
       // More flexible URL filtering - allow URLs that contain the site URL domain
       const siteUrlObj = new URL(this.options.siteUrl);
       const filteredUrls = urls.filter(urlEntry => {
@@ -204,39 +973,34 @@ export class LLMSGenerator {
   }
 
   /**
-   * Extract URLs from XML content
+   * Read an XML response body, transparently decompressing gzip payloads
    */
-  private extractUrlsFromXml(xml: string): SitemapUrl[] {
-    const urlMatches = xml.matchAll(/<url>([\s\S]*?)<\/url>/g);
-    const sitemapUrls: SitemapUrl[] = [];
-    
-    for (const match of urlMatches) {
-      const urlBlock = match[1];
-      if (!urlBlock) continue;
-      
-      const locMatch = urlBlock.match(/<loc>([^<]+)<\/loc>/);
-      const lastmodMatch = urlBlock.match(/<lastmod>([^<]+)<\/lastmod>/);
-      
-      if (locMatch?.[1]) {
-        const entry: SitemapUrl = { loc: locMatch[1].trim() };
-         if (lastmodMatch?.[1]) {
-           entry.lastmod = lastmodMatch[1].trim();
-         }
-         sitemapUrls.push(entry);
+  private async readXmlBody(response: FetcherResponse, url: string): Promise<string> {
+    const body = await readResponseBody(response, MAX_SITEMAP_BYTES);
+    const hasGzipMagic = body.length >= 2 && body[0] === 0x1f && body[1] === 0x8b;
+    
+    if (!hasGzipMagic) {
+      const looksCompressed = /\.gz$/i.test(new URL(url).pathname) ||
+        /gzip/i.test(response.headers.get('content-encoding') || '');
+      if (looksCompressed) {
+        // fetch already decoded Content-Encoding, or the server sent plain XML under a .gz name
+        this.logger.debug(`Response for ${url} is not gzip-encoded, reading as plain XML`);
       }
+      return body.toString('utf8');
     }
     
-    // Fallback for simple sitemap format
-    if (sitemapUrls.length === 0) {
-      const simpleMatches = xml.matchAll(/<loc>([^<]+)<\/loc>/g);
-      for (const match of simpleMatches) {
-        if (match[1]) {
-          sitemapUrls.push({ loc: match[1].trim() });
-        }
-      }
+    try {
+      const decompressed = await gunzip(body, { maxOutputLength: MAX_SITEMAP_BYTES });
+      this.logger.debug(`Decompressed gzip sitemap ${url}: ${body.length} -> ${decompressed.length} bytes`);
+      return decompressed.toString('utf8');
+    } catch (error) {
+      throw new GeneratorError(
+        `Failed to decompress gzip content: ${url}`,
+        ErrorType.PARSE_ERROR,
+        url,
+        error as Error
+      );
     }
-    
-    return sitemapUrls;
   }
 
   /**
@@ -274,7 +1038,7 @@ export class LLMSGenerator {
     
     // Fallback to site URL if no URLs found
     if (filtered.length === 0) {
-      this.logger.warn('No URLs found, falling back to site URL');
+      this.logger.warn('No URLs found in any sitemap, falling back to site URL');
       filtered = [{ loc: this.options.siteUrl }];
     }
     
@@ -285,19 +1049,24 @@ export class LLMSGenerator {
   /**
    * Discover URLs recursively by following internal links
    */
-  private async discoverUrlsRecursively(initialUrls: SitemapUrl[]): Promise<DiscoveredUrl[]> {
+  private async discoverUrlsRecursively(initialUrls: SitemapUrl[], seedUrls: DiscoveredUrl[] = []): Promise<DiscoveredUrl[]> {
+    const seedMethods = new Map(seedUrls.map(seedUrl => [seedUrl.url, seedUrl.discoveryMethod]));
+    const toDiscovered = (url: SitemapUrl, loc: string): DiscoveredUrl => {
+      const discovered: DiscoveredUrl = {
+        url: loc,
+        depth: 0,
+        discoveryMethod: seedMethods.get(url.loc) ?? 'sitemap'
+      };
+      if (url.lastmod) {
+        discovered.lastmod = url.lastmod;
+      }
+      if (url.title) discovered.title = url.title;
+      if (url.summary) discovered.summary = url.summary;
+      return discovered;
+    };
+    
     if (!this.options.enableRecursiveDiscovery) {
-      return initialUrls.map(url => {
-        const discovered: DiscoveredUrl = {
-          url: url.loc,
-          depth: 0,
-          discoveryMethod: 'sitemap' as const
-        };
-        if (url.lastmod) {
-          discovered.lastmod = url.lastmod;
-        }
-        return discovered;
-      });
+      return initialUrls.map(url => toDiscovered(url, url.loc));
     }
 
     const discovered = new Map<string, DiscoveredUrl>();
@@ -306,20 +1075,12 @@ export class LLMSGenerator {
     // Add initial URLs from sitemap
     for (const url of initialUrls) {
       const normalizedUrl = this.normalizeUrl(url.loc);
-      const discoveredUrl: DiscoveredUrl = {
-        url: normalizedUrl,
-        depth: 0,
-        discoveryMethod: 'sitemap'
-      };
-      if (url.lastmod) {
-        discoveredUrl.lastmod = url.lastmod;
-      }
-      discovered.set(normalizedUrl, discoveredUrl);
+      discovered.set(normalizedUrl, toDiscovered(url, normalizedUrl));
       toProcess.add(normalizedUrl);
     }
 
     // Process URLs at each depth level
-    for (let depth = 0; depth < this.options.maxRecursiveDepth; depth++) {
+    for (let depth = 0; depth < this.options.maxRecursiveDepth && !this.isStopped; depth++) {
       const currentLevelUrls = Array.from(toProcess).filter(url => 
         discovered.get(url)?.depth === depth
       );
@@ -337,11 +1098,6 @@ export class LLMSGenerator {
           toProcess.add(normalizedUrl);
         }
       }
-      
-      // Apply delay between depth levels
-      if (depth < this.options.maxRecursiveDepth - 1) {
-        await new Promise(resolve => setTimeout(resolve, this.options.requestDelay));
-      }
     }
 
     return Array.from(discovered.values());
@@ -355,7 +1111,7 @@ export class LLMSGenerator {
     const semaphore = new Array(this.options.concurrency).fill(null);
     
     await Promise.all(semaphore.map(async () => {
-      while (urls.length > 0) {
+      while (urls.length > 0 && !this.isStopped) {
         const url = urls.shift();
         if (!url) break;
         
@@ -365,9 +1121,6 @@ export class LLMSGenerator {
         } catch (error) {
           this.logger.warn(`Failed to extract links from ${url}: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
-        
-        // Add delay between requests
-        await new Promise(resolve => setTimeout(resolve, this.options.requestDelay));
       }
     }));
     
@@ -378,10 +1131,16 @@ export class LLMSGenerator {
    * Extract internal links from a single page
    */
   private async extractLinksFromPage(url: string, depth: number): Promise<DiscoveredUrl[]> {
+    if (this.isBlockedByRobots(url)) {
+      this.logger.debug(`Not following links from ${url}: blocked by robots.txt`);
+      return [];
+    }
+    
     try {
       const response = await this.fetchWithRetry(url);
-      const html = await response.text();
-      const dom = new JSDOM(html, { url });
+      const html = await readResponseText(response, this.options.maxHtmlBytes);
+      // Resolve relative links against the final URL after redirects
+      const dom = new JSDOM(html, { url: response.url });
       const document = dom.window.document;
       
       const links = Array.from(document.querySelectorAll('a[href]'))
@@ -622,20 +1381,201 @@ export class LLMSGenerator {
   }
 
   /**
-   * Check if a file path matches any of the given glob patterns
+   * Check if a file path matches any of the given glob patterns
+   */
+  private matchesFilePatterns(filePath: string, patterns: string[]): boolean {
+    return patterns.some(pattern => {
+      // Convert glob pattern to regex (escape first so the generated wildcards survive)
+      const regexPattern = pattern
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*\*\//g, '\u0000')
+        .replace(/\*\*/g, '.*')
+        .replace(/\*/g, '[^/]*')
+        .replace(/\?/g, '[^/]')
+        .replace(/\u0000/g, '(?:.*/)?');
+      
+      const regex = new RegExp(`^${regexPattern}$`);
+      return regex.test(filePath) || regex.test(filePath.replace(/\\/g, '/'));
+    });
+  }
+
+  /**
+   * Read discovered Markdown/MDX files and convert them into page results
+   */
+  private async renderDiscoveredFiles(files: DiscoveredFile[]): Promise<PageResult[]> {
+    const results: PageResult[] = [];
+    
+    for (const file of files) {
+      const url = this.options.filePathToUrl(file, this.options.siteUrl);
+      if (!url) {
+        this.logger.debug(`No URL mapping for ${file.relativePath}, skipping`);
+        continue;
+      }
+      
+      try {
+        results.push(await this.renderFile(file, url));
+      } catch (error) {
+        this.logger.warn(`Failed to read file ${file.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        results.push({
+          url,
+          title: 'Skipped',
+          content: 'No content extracted.',
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          errorType: ErrorType.PARSE_ERROR,
+          timestamp: new Date(),
+          contentLength: 0,
+          skipReason: 'parse-error',
+          truncated: false
+        });
+      }
+    }
+    
+    if (results.length > 0) {
+      this.logger.info(`Rendered ${results.length} files from file system`);
+    }
+    
+    return results;
+  }
+
+  /**
+   * Render a single Markdown/MDX file into a page result
+   */
+  private async renderFile(file: DiscoveredFile, url: string): Promise<PageResult> {
+    const source = await fs.promises.readFile(file.filePath, 'utf8');
+    const { data, body } = parseFrontmatter(source);
+    
+    const headingMatch = body.match(/^#\s+(.+)$/m);
+    const title = pickFrontmatterValue(data, ['title', 'name']) ||
+      headingMatch?.[1]?.trim() ||
+      path.basename(file.relativePath, file.extension);
+    const summary = pickFrontmatterValue(data, ['summary', 'description', 'excerpt']);
+    const date = pickFrontmatterValue(data, ['lastmod', 'updatedAt', 'updated', 'date', 'publishedAt', 'pubDate']);
+    
+    const cleaned = this.cleanMarkdownContent(body).trim();
+    const content = this.options.contentTransformer(cleaned, url);
+    
+    const result: PageResult = {
+      url,
+      title,
+      content,
+      success: true,
+      timestamp: new Date(),
+      contentLength: content.length,
+      lastmod: date && !Number.isNaN(Date.parse(date)) ? date : file.lastModified.toISOString(),
+      truncated: false,
+      originalLength: content.length
+    };
+    if (summary) result.summary = summary;
+    return result;
+  }
+
+  /**
+   * Render the configured OpenAPI/Swagger specs into one API reference page per operation
+   */
+  private async renderOpenApiSpecs(): Promise<PageResult[]> {
+    const results: PageResult[] = [];
+    
+    for (const entry of this.options.openApiSpecs) {
+      if (this.isStopped) break;
+      const source = typeof entry === 'string' ? { spec: entry } : entry;
+      
+      try {
+        const pages = this.openApiRenderer.render(await this.loadOpenApiSpec(source.spec), source.spec);
+        const prefix = (source.routePrefix ?? '/api/reference').replace(/\/+$/, '');
+        
+        for (const page of pages) {
+          const url = new URL(`${prefix}/${page.slug}`, this.options.siteUrl).toString();
+          const content = this.options.contentTransformer(page.content, url);
+          const result: PageResult = {
+            url,
+            title: page.title,
+            content,
+            success: true,
+            timestamp: new Date(),
+            contentLength: content.length,
+            truncated: false,
+            originalLength: content.length,
+            category: source.category || 'api'
+          };
+          if (page.summary) result.summary = page.summary;
+          results.push(result);
+        }
+        
+        this.logger.info(`Rendered ${pages.length} API operations from ${source.spec}`);
+      } catch (error) {
+        this.logger.warn(`Failed to read OpenAPI spec ${source.spec}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+    
+    return results;
+  }
+
+  /**
+   * Fetch or read an OpenAPI spec and parse it as JSON
+   */
+  private async loadOpenApiSpec(location: string): Promise<unknown> {
+    let text: string;
+    if (/^https?:\/\//i.test(location)) {
+      const response = await this.fetchWithRetry(location);
+      text = await readResponseText(response, this.options.maxHtmlBytes);
+    } else {
+      text = await fs.promises.readFile(path.resolve(process.cwd(), location), 'utf8');
+    }
+    
+    try {
+      return JSON.parse(text.replace(/^\uFEFF/, ''));
+    } catch (error) {
+      throw new GeneratorError(
+        `Invalid OpenAPI JSON: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ErrorType.PARSE_ERROR,
+        location,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Merge file-based results into crawled results, de-duplicating by URL
    */
-  private matchesFilePatterns(filePath: string, patterns: string[]): boolean {
-    return patterns.some(pattern => {
-      // Convert glob pattern to regex
-      const regexPattern = pattern
-        .replace(/\*\*/g, '.*')
-        .replace(/\*/g, '[^/]*')
-        .replace(/\?/g, '[^/]')
-        .replace(/\./g, '\\.');
+  private mergeFileResults(crawledResults: PageResult[], fileResults: PageResult[]): PageResult[] {
+    if (fileResults.length === 0) {
+      return crawledResults;
+    }
+    
+    const merged = [...crawledResults];
+    const indexByUrl = new Map<string, number>();
+    merged.forEach((result, index) => indexByUrl.set(this.normalizeUrl(result.url), index));
+    
+    let added = 0;
+    let replaced = 0;
+    for (const fileResult of fileResults) {
+      const key = this.normalizeUrl(fileResult.url);
+      const existingIndex = indexByUrl.get(key);
       
-      const regex = new RegExp(`^${regexPattern}$`);
-      return regex.test(filePath) || regex.test(filePath.replace(/\\/g, '/'));
-    });
+      if (existingIndex !== undefined) {
+        // Prefer the live page, but fall back to the source file when the crawl failed
+        if (!merged[existingIndex]?.success && fileResult.success) {
+          merged[existingIndex] = fileResult;
+          replaced++;
+        } else {
+          this.logger.debug(`Skipping file for ${fileResult.url}: already crawled from sitemap`);
+        }
+        continue;
+      }
+      
+      if (merged.length >= this.options.maxPages) {
+        this.logger.warn(`Max pages limit reached, dropping remaining file system pages`);
+        break;
+      }
+      
+      indexByUrl.set(key, merged.length);
+      merged.push(fileResult);
+      added++;
+    }
+    
+    this.logger.info(`Merged file system pages: ${added} added, ${replaced} replaced failed crawls`);
+    return merged;
   }
 
   /**
@@ -646,7 +1586,7 @@ export class LLMSGenerator {
     let currentIndex = 0;
     
     const worker = async (): Promise<void> => {
-      while (currentIndex < urls.length) {
+      while (currentIndex < urls.length && !this.isStopped) {
         const index = currentIndex++;
         const urlEntry = urls[index];
         const url = urlEntry?.loc;
@@ -655,7 +1595,9 @@ export class LLMSGenerator {
         
         try {
           const result = await this.crawlSinglePage(url, urlEntry.lastmod);
-          results[index] = result;
+          // Pages cut off by a stop are left out rather than reported as failures
+          if (result.errorType === ErrorType.ABORTED) continue;
+          results[index] = this.applyKnownMetadata(result, urlEntry);
         } catch (error) {
           results[index] = {
             url,
@@ -677,20 +1619,71 @@ export class LLMSGenerator {
     return results.filter(Boolean); // Remove any undefined entries
   }
 
+  /**
+   * Fill gaps in a crawl result with metadata known before crawling (e.g. from feeds)
+   */
+  private applyKnownMetadata(result: PageResult, urlEntry: SitemapUrl): PageResult {
+    if (urlEntry.title && !result.success) {
+      result.title = urlEntry.title;
+    }
+    if (urlEntry.summary && !result.summary) {
+      result.summary = urlEntry.summary;
+    }
+    return result;
+  }
+
   /**
    * Crawl a single page
    */
   private async crawlSinglePage(url: string, lastmod?: string): Promise<PageResult> {
     const startTime = new Date();
     
+    if (this.isBlockedByRobots(url)) {
+      this.logger.info(`Skipping ${url}: blocked by robots.txt`);
+      const result: PageResult = {
+        url,
+        title: 'Skipped',
+        content: 'Blocked by robots.txt',
+        success: false,
+        error: 'Blocked by robots.txt',
+        errorType: ErrorType.ROBOTS_BLOCKED,
+        timestamp: startTime,
+        contentLength: 0,
+        skipReason: 'robots',
+        truncated: false
+      };
+      if (lastmod) result.lastmod = lastmod;
+      return result;
+    }
+    
+    const cached = this.crawlCache ? await this.crawlCache.get(url) : null;
+    if (cached && lastmod && cached.lastmod === lastmod && this.crawlCache?.trustLastmod) {
+      this.logger.debug(`Reusing cached ${url}: sitemap lastmod unchanged`);
+      return this.reuseCachedResult(cached, lastmod);
+    }
+    
+    const retryState = { retries: 0 };
     try {
-      const response = await this.fetchWithRetry(url);
+      const response = await this.fetchWithRetry(url, {
+        retryState,
+        headers: cached ? this.getConditionalHeaders(cached) : {}
+      });
+      
+      if (response.status === 304 && cached) {
+        await discardResponseBody(response);
+        this.logger.debug(`Reusing cached ${url}: not modified`);
+        const entry: CrawlCacheEntry = { ...cached, storedAt: Date.now() };
+        if (lastmod) entry.lastmod = lastmod;
+        await this.crawlCache?.set(entry);
+        return this.reuseCachedResult(cached, lastmod);
+      }
       
-      if (!response.ok) {
+      if (!isSuccessStatus(response.status)) {
+        await discardResponseBody(response);
         const result: PageResult = {
           url,
           title: 'Skipped',
-          content: `Failed to fetch: ${response.status} ${response.statusText}`,
+          content: `Failed to fetch: ${response.status} ${response.statusText || ''}`.trim(),
           success: false,
           error: `HTTP ${response.status}`,
           timestamp: startTime,
@@ -700,12 +1693,15 @@ export class LLMSGenerator {
           truncated: false
         };
         if (lastmod) result.lastmod = lastmod;
+        if (retryState.retries) result.retries = retryState.retries;
         return result;
       }
       
-      // Check content type
+      // Check content type: HTML is extracted, other types need a content handler
       const contentType = response.headers.get('content-type') || '';
-      if (!contentType.includes('text/html')) {
+      const handler = contentType.includes('text/html') ? undefined : this.contentHandlers.find(contentType);
+      if (!contentType.includes('text/html') && !handler) {
+        await discardResponseBody(response);
         const result: PageResult = {
           url,
           title: 'Skipped',
@@ -719,19 +1715,26 @@ export class LLMSGenerator {
           truncated: false
         };
         if (lastmod) result.lastmod = lastmod;
+        if (retryState.retries) result.retries = retryState.retries;
         return result;
       }
       
-      const html = await response.text();
-      
-      // Check for oversized content
-      if (html.length > 5 * 1024 * 1024) { // 5MB
+      // Stream the body, stopping at maxHtmlBytes
+      let html: string;
+      try {
+        html = await readResponseText(response, this.options.maxHtmlBytes);
+      } catch (error) {
+        if (!(error instanceof GeneratorError) || error.type !== ErrorType.CONTENT_TOO_LARGE) {
+          throw error;
+        }
+        this.logger.warn(`Skipping ${url}: larger than ${this.options.maxHtmlBytes} bytes`);
         const result: PageResult = {
           url,
           title: 'Skipped',
           content: 'No content extracted.',
           success: false,
           error: 'Content too large',
+          errorType: ErrorType.CONTENT_TOO_LARGE,
           timestamp: startTime,
           contentLength: 0,
           statusCode: response.status,
@@ -739,10 +1742,31 @@ export class LLMSGenerator {
           truncated: false
         };
         if (lastmod) result.lastmod = lastmod;
+        if (retryState.retries) result.retries = retryState.retries;
         return result;
       }
       
-      const { title, content, language } = this.extractContent(url, html);
+      const extracted: (ContentHandlerResult & { title: string; extractor?: string }) | null = handler
+        ? await this.runContentHandler(handler, url, contentType, html)
+        : this.extractContent(url, html);
+      if (!extracted) {
+        const result: PageResult = {
+          url,
+          title: 'Skipped',
+          content: 'No content extracted.',
+          success: false,
+          error: `Skipped by ${handler?.name} content handler`,
+          timestamp: startTime,
+          contentLength: 0,
+          statusCode: response.status,
+          skipReason: 'content-type',
+          truncated: false
+        };
+        if (lastmod) result.lastmod = lastmod;
+        if (retryState.retries) result.retries = retryState.retries;
+        return result;
+      }
+      const { title, content, summary, language, extractor } = extracted;
       
       const transformedContent = this.options.contentTransformer
         ? this.options.contentTransformer(content, url)
@@ -760,7 +1784,14 @@ export class LLMSGenerator {
         originalLength: transformedContent.length
       };
       if (lastmod) result.lastmod = lastmod;
+      if (summary) result.summary = summary;
       if (language) result.language = language;
+      if (extractor) result.extractor = extractor;
+      if (retryState.retries) result.retries = retryState.retries;
+      
+      if (this.crawlCache) {
+        await this.crawlCache.set(this.createCacheEntry(url, response, html, result, lastmod));
+      }
       return result;
     } catch (error) {
       this.logger.warn(`Failed to crawl page: ${url}`, error);
@@ -777,15 +1808,82 @@ export class LLMSGenerator {
         skipReason: 'parse-error',
         truncated: false
       };
+      if (error instanceof GeneratorError) result.errorType = error.type;
       if (lastmod) result.lastmod = lastmod;
+      if (retryState.retries) result.retries = retryState.retries;
       return result;
     }
   }
 
   /**
-   * Extract content from HTML using multiple fallback methods
+   * Convert a non-HTML body with a content handler; the title falls back to the last URL path segment
+   */
+  private async runContentHandler(
+    handler: ContentHandler,
+    url: string,
+    contentType: string,
+    body: string
+  ): Promise<(ContentHandlerResult & { title: string; extractor: string }) | null> {
+    this.logger.debug(`Handling ${url} (${contentType}) with the ${handler.name} content handler`);
+    const handled = await handler.handle(body, {
+      url,
+      contentType,
+      cleanMarkdown: content => this.cleanMarkdownContent(content)
+    });
+    if (!handled) {
+      return null;
+    }
+
+    const segments = new URL(url).pathname.split('/').filter(Boolean);
+    const fallbackTitle = decodeURIComponent(segments[segments.length - 1] || new URL(url).hostname);
+    return { ...handled, title: handled.title || fallbackTitle, extractor: handler.name };
+  }
+
+  /**
+   * Conditional request headers for revalidating a cached page
+   */
+  private getConditionalHeaders(entry: CrawlCacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (entry.etag) headers['If-None-Match'] = entry.etag;
+    if (entry.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+    return headers;
+  }
+
+  /**
+   * Return a cached page result, carrying over the current sitemap lastmod
    */
-  private extractContent(url: string, html: string): { title: string; content: string; language?: string } {
+  private reuseCachedResult(entry: CrawlCacheEntry, lastmod?: string): PageResult {
+    const result: PageResult = { ...entry.result, fromCache: true };
+    if (lastmod) result.lastmod = lastmod;
+    return result;
+  }
+
+  /**
+   * Build a crawl cache entry from a successful response
+   */
+  private createCacheEntry(
+    url: string,
+    response: FetcherResponse,
+    html: string,
+    result: PageResult,
+    lastmod?: string
+  ): CrawlCacheEntry {
+    const entry: CrawlCacheEntry = { url, html, result, storedAt: Date.now() };
+    const etag = response.headers.get('etag');
+    const lastModified = response.headers.get('last-modified');
+    if (etag) entry.etag = etag;
+    if (lastModified) entry.lastModified = lastModified;
+    if (lastmod) entry.lastmod = lastmod;
+    return entry;
+  }
+
+  /**
+   * Extract content from HTML with an extraction rule, the extractor chain or Readability
+   */
+  private extractContent(
+    url: string,
+    html: string
+  ): { title: string; content: string; language?: string; extractor?: string } {
     const dom = new JSDOM(html, { url });
     const document = dom.window.document;
     
@@ -793,8 +1891,10 @@ export class LLMSGenerator {
     const langAttr = document.documentElement.getAttribute('lang');
     const language = langAttr ? langAttr : undefined;
     
+    const rule = this.findExtractionRule(url);
+    
     // Remove unwanted elements
-    this.extractionConfig.stripSelectors.forEach(selector => {
+    [...this.extractionConfig.stripSelectors, ...(rule?.stripSelectors || [])].forEach(selector => {
       document.querySelectorAll(selector).forEach((element: Element) => element.remove());
     });
     
@@ -803,26 +1903,54 @@ export class LLMSGenerator {
       element.remove();
     });
     
+    // Flatten syntax-highlighted code while its language classes and filename captions still exist
+    normalizeCodeBlocks(document);
+    if (this.extractionConfig.gfm.taskLists) {
+      markTaskListItems(document);
+    }
+    
+    const contentRoot = rule?.contentSelector ? document.querySelector(rule.contentSelector) : null;
+    if (rule?.contentSelector && !contentRoot) {
+      this.logger.debug(`Content selector ${rule.contentSelector} not found on ${url}, using default extraction`);
+    }
+    const useReadability = rule?.useReadability ?? this.extractionConfig.useReadability;
+    
+    // Read the rule's title before Readability rewrites the document
+    const ruleTitle = rule?.titleSource && rule.titleSource !== 'readability'
+      ? this.getTitleFromSource(document, rule.titleSource, contentRoot)
+      : undefined;
+    
     let title: string;
     let content: string;
-    
-    if (this.options.enableMultipleExtractionMethods) {
-      const extractionResult = this.extractContentWithFallbacks(document, url);
-      title = extractionResult.title;
-      content = extractionResult.content;
+    let extractor: string | undefined;
+    
+    if (contentRoot) {
+      title = document.title || url;
+      content = this.toMarkdown(contentRoot.innerHTML);
+      extractor = 'extraction-rule';
+    } else if (this.options.enableMultipleExtractionMethods) {
+      const extracted = this.extractorChain.run({
+        url,
+        document,
+        useReadability,
+        toMarkdown: fragment => this.toMarkdown(fragment)
+      });
+      title = extracted?.title || document.title || url;
+      content = extracted?.content || 'No content could be extracted from this page.';
+      extractor = extracted?.extractor;
     } else {
       // Original single method extraction
       let contentHtml: string;
       
-      if (this.extractionConfig.useReadability) {
-        const reader = new Readability(document);
-        const article = reader.parse();
-        
-        title = article?.title || document.title || url;
-        contentHtml = article?.content || document.body?.innerHTML || '';
+      const article = useReadability ? new Readability(document).parse() : null;
+      if (article?.content) {
+        title = article.title || document.title || url;
+        contentHtml = article.content;
+        extractor = 'readability';
       } else {
-        title = document.title || url;
+        title = article?.title || document.title || url;
         contentHtml = document.body?.innerHTML || '';
+        extractor = 'body';
       }
       
       const markdown = this.turndownService.turndown(contentHtml).trim();
@@ -830,6 +1958,10 @@ export class LLMSGenerator {
         (document.body?.textContent || '').trim();
     }
     
+    if (ruleTitle) {
+      title = ruleTitle;
+    }
+    
     // Apply content cleaning if enabled
     if (this.options.enableContentCleaning) {
       content = this.cleanMarkdownContent(content);
@@ -838,204 +1970,39 @@ export class LLMSGenerator {
     // Apply custom content transformer
     content = this.options.contentTransformer(content, url);
     
-    const result: { title: string; content: string; language?: string } = { title, content };
+    const result: { title: string; content: string; language?: string; extractor?: string } = { title, content };
     if (language) result.language = language;
+    if (extractor) result.extractor = extractor;
     return result;
   }
 
   /**
-   * Extract content using multiple fallback methods
-   */
-  private extractContentWithFallbacks(document: Document, url: string): { title: string; content: string } {
-    const extractionMethods = [
-      () => this.extractWithReadability(document, url),
-      () => this.extractWithSemanticSelectors(document, url),
-      () => this.extractWithContentSelectors(document, url),
-      () => this.extractWithMetadata(document, url),
-      () => this.extractRawText(document, url)
-    ];
-    
-    for (const method of extractionMethods) {
-      try {
-        const result = method();
-        if (result.content && result.content.trim().length > 50) {
-          this.logger.debug(`Content extracted successfully using fallback method`);
-          return result;
-        }
-      } catch (error) {
-        this.logger.debug(`Extraction method failed:`, error);
-        continue;
-      }
-    }
-    
-    // Final fallback - return basic document info
-    return {
-      title: document.title || url,
-      content: 'No content could be extracted from this page.'
-    };
-  }
-  
-  /**
-   * Extract content using Mozilla Readability
+   * Convert an HTML fragment to Markdown, collapsing runs of blank lines
    */
-  private extractWithReadability(document: Document, url: string): { title: string; content: string } {
-    const reader = new Readability(document);
-    const article = reader.parse();
-    
-    if (!article) {
-      throw new Error('Readability failed to parse content');
-    }
-    
-    const title = article.title || document.title || url;
-    const contentHtml = article.content || '';
-    const markdown = this.turndownService.turndown(contentHtml).trim();
-    
-    return {
-      title,
-      content: markdown.replace(/\n{3,}/g, '\n\n')
-    };
-  }
-  
-  /**
-   * Extract content using semantic HTML selectors
-   */
-  private extractWithSemanticSelectors(document: Document, url: string): { title: string; content: string } {
-    const semanticSelectors = [
-      'main',
-      'article',
-      '[role="main"]',
-      '.content',
-      '.post-content',
-      '.entry-content',
-      '.article-content',
-      '.page-content'
-    ];
-    
-    for (const selector of semanticSelectors) {
-      const element = document.querySelector(selector);
-      if (element) {
-        const title = document.title || url;
-        const markdown = this.turndownService.turndown(element.innerHTML).trim();
-        
-        if (markdown.length > 50) {
-          return {
-            title,
-            content: markdown.replace(/\n{3,}/g, '\n\n')
-          };
-        }
-      }
-    }
-    
-    throw new Error('No semantic content found');
-  }
-  
-  /**
-   * Extract content using common content selectors
-   */
-  private extractWithContentSelectors(document: Document, url: string): { title: string; content: string } {
-    const contentSelectors = [
-      '.markdown-body',
-      '.prose',
-      '.documentation',
-      '.docs-content',
-      '.wiki-content',
-      '.readme',
-      '.post-body',
-      '.entry-body'
-    ];
-    
-    for (const selector of contentSelectors) {
-      const element = document.querySelector(selector);
-      if (element) {
-        const title = document.title || url;
-        const markdown = this.turndownService.turndown(element.innerHTML).trim();
-        
-        if (markdown.length > 50) {
-          return {
-            title,
-            content: markdown.replace(/\n{3,}/g, '\n\n')
-          };
-        }
-      }
-    }
-    
-    throw new Error('No content selectors matched');
+  private toMarkdown(html: string): string {
+    return this.turndownService.turndown(html).trim().replace(/\n{3,}/g, '\n\n');
   }
-  
+
   /**
-   * Extract content from metadata and structured data
+   * First extraction rule whose URL pattern matches the page
    */
-  private extractWithMetadata(document: Document, url: string): { title: string; content: string } {
-    const title = document.title || url;
-    let content = '';
-    
-    // Extract meta description
-    const metaDescription = document.querySelector('meta[name="description"]')?.getAttribute('content');
-    if (metaDescription) {
-      content += `Description: ${metaDescription}\n\n`;
-    }
-    
-    // Extract Open Graph data
-    const ogTitle = document.querySelector('meta[property="og:title"]')?.getAttribute('content');
-    const ogDescription = document.querySelector('meta[property="og:description"]')?.getAttribute('content');
-    
-    if (ogTitle && ogTitle !== title) {
-      content += `Title: ${ogTitle}\n\n`;
-    }
-    
-    if (ogDescription && ogDescription !== metaDescription) {
-      content += `Summary: ${ogDescription}\n\n`;
-    }
-    
-    // Extract JSON-LD structured data
-    const jsonLdScripts = document.querySelectorAll('script[type="application/ld+json"]');
-    jsonLdScripts.forEach(script => {
-      try {
-        const data = JSON.parse(script.textContent || '');
-        if (data.description) {
-          content += `Structured Description: ${data.description}\n\n`;
-        }
-        if (data.text) {
-          content += `Content: ${data.text}\n\n`;
-        }
-      } catch {
-        // Ignore invalid JSON-LD
-      }
-    });
-    
-    if (content.trim().length < 50) {
-      throw new Error('Insufficient metadata content');
-    }
-    
-    return { title, content: content.trim() };
+  private findExtractionRule(url: string): ExtractionRule | undefined {
+    return this.extractionConfig.rules.find(rule => this.matchesAnyPattern(url, [rule.urlPattern]));
   }
-  
+
   /**
-   * Extract raw text content as final fallback
+   * Page title from <title>, the first <h1> (inside the content root when there is one) or og:title
    */
-  private extractRawText(document: Document, url: string): { title: string; content: string } {
-    const title = document.title || url;
-    
-    // Remove navigation, footer, and sidebar elements
-    const elementsToRemove = document.querySelectorAll(
-      'nav, footer, aside, .sidebar, .navigation, .menu, .header, .footer'
-    );
-    elementsToRemove.forEach(el => el.remove());
-    
-    const textContent = document.body?.textContent || '';
-    const cleanedText = textContent
-      .replace(/\s+/g, ' ')
-      .replace(/\n\s*\n/g, '\n\n')
-      .trim();
-    
-    if (cleanedText.length < 50) {
-      throw new Error('Insufficient text content');
+  private getTitleFromSource(document: Document, source: TitleSource, contentRoot: Element | null): string | undefined {
+    let title: string | null | undefined;
+    if (source === 'document') {
+      title = document.title;
+    } else if (source === 'h1') {
+      title = (contentRoot?.querySelector('h1') || document.querySelector('h1'))?.textContent;
+    } else if (source === 'og:title') {
+      title = document.querySelector('meta[property="og:title"]')?.getAttribute('content');
     }
-    
-    return {
-      title,
-      content: cleanedText
-    };
+    return title?.replace(/\s+/g, ' ').trim() || undefined;
   }
 
   /**
@@ -1056,8 +2023,8 @@ export class LLMSGenerator {
       cleaned = cleaned.replace(/{\/*[\s\S]*?\*\/}/g, '');
     }
     
-    // Remove <br/> tags and convert to newlines
-    cleaned = cleaned.replace(/<br\s*\/?>/g, '\n');
+    // Remove <br/> tags and convert to newlines (table rows keep them as in-cell breaks)
+    cleaned = cleaned.replace(/^(?!\|).*$/gm, line => line.replace(/<br\s*\/?>/g, '\n'));
     
     // Handle FAQ components
     cleaned = cleaned.replace(/<FAQItem\s+question="([^"]+)"\s*>([\s\S]*?)<\/FAQItem>/g, (_, question, answer) => {
@@ -1068,7 +2035,7 @@ export class LLMSGenerator {
     });
     
     // Process content while preserving tables
-    const sections = cleaned.split(/(\|.*\|\n\|.*\|\n(\|.*\|\n)*)/);
+    const sections = cleaned.split(/(\|.*\|\n\|.*\|\n(?:\|.*\|\n)*)/);
     let processedContent = '';
     
     for (let i = 0; i < sections.length; i++) {
@@ -1143,45 +2110,166 @@ export class LLMSGenerator {
   }
 
   /**
-   * Fetch with retry logic
+   * Fetch a URL, retrying transient failures according to the retry policy
    */
-  private async fetchWithRetry(url: string, retries = 3): Promise<Response> {
-    for (let attempt = 0; attempt < retries; attempt++) {
+  private async fetchWithRetry(url: string, requestOptions: FetchRequestOptions = {}): Promise<FetcherResponse> {
+    const retries = requestOptions.retries ?? this.options.retries;
+    const retryState = requestOptions.retryState || { retries: 0 };
+    
+    await this.auth.ensureLoggedIn(this.options.fetcher, this.getBaseHeaders());
+    
+    for (let attempt = 0; ; attempt++) {
+      await this.rateLimiter.acquire(url, this.stopController.signal);
+      if (this.isStopped) {
+        throw this.createStoppedError(url);
+      }
+      
+      let response: FetcherResponse;
       try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), this.options.requestTimeoutMs);
-        
-        const response = await fetch(url, {
-          redirect: 'follow',
-          headers: {
-            'User-Agent': this.options.userAgent,
-            ...this.options.customHeaders
-          },
-          signal: controller.signal
-        });
-        
-        clearTimeout(timeoutId);
-        
-        if (response.ok) {
-          return response;
-        }
-        
-        throw new GeneratorError(
-          `HTTP ${response.status}: ${response.statusText}`,
-          ErrorType.NETWORK_ERROR,
-          url
-        );
+        response = await this.fetchOnce(url, requestOptions.headers);
       } catch (error) {
-        if (attempt === retries - 1) {
+        if (attempt >= retries || !this.retryPolicy.isRetryableError(error)) {
           throw error;
         }
-        
-        const delay = 250 * (attempt + 1);
-        await new Promise(resolve => setTimeout(resolve, delay));
+        await this.waitBeforeRetry(url, retryState, this.retryPolicy.getDelay(attempt) ?? 0, error);
+        continue;
+      }
+      
+      // 304 only answers conditional requests, which the caller resolves from its cache
+      if (isSuccessStatus(response.status) || response.status === 304) {
+        this.rateLimiter.recordSuccess(url);
+        return response;
+      }
+      
+      if (response.status === 429 || response.status >= 500) {
+        this.rateLimiter.recordThrottle(url);
       }
+      
+      await discardResponseBody(response);
+      const error = new GeneratorError(
+        `HTTP ${response.status}: ${response.statusText || ''}`.trim(),
+        ErrorType.NETWORK_ERROR,
+        url
+      );
+      
+      // Non-transient statuses (404, 403, ...) fail immediately
+      if (attempt >= retries || !this.retryPolicy.isRetryableStatus(response.status)) {
+        throw error;
+      }
+      
+      const delay = this.retryPolicy.getDelay(attempt, response.status, response.headers.get('retry-after'));
+      if (delay === null) {
+        this.logger.warn(`Giving up on ${url}: Retry-After exceeds the configured maximum`);
+        throw error;
+      }
+      if (response.status === 429 || response.status === 503) {
+        // The whole host is overloaded, not just this URL
+        this.rateLimiter.pause(url, delay);
+      }
+      await this.waitBeforeRetry(url, retryState, delay, error);
     }
+  }
+
+  /**
+   * Perform a single request, mapping aborts to timeout errors
+   */
+  private async fetchOnce(url: string, headers: Record<string, string> = {}): Promise<FetcherResponse> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.options.requestTimeoutMs);
+    const onStop = () => controller.abort();
+    this.stopController.signal.addEventListener('abort', onStop, { once: true });
     
-    throw new GeneratorError(`Failed to fetch after ${retries} attempts`, ErrorType.NETWORK_ERROR, url);
+    try {
+      const response = await this.options.fetcher.fetch({
+        url,
+        method: 'GET',
+        headers: {
+          ...this.getBaseHeaders(),
+          ...this.auth.getRequestHeaders(url),
+          ...headers
+        },
+        signal: controller.signal
+      });
+      this.auth.storeCookies(url, response);
+      return response;
+    } catch (error) {
+      if (this.isStopped) {
+        throw this.createStoppedError(url);
+      }
+      if (controller.signal.aborted) {
+        throw new GeneratorError(
+          `Request timed out after ${this.options.requestTimeoutMs}ms`,
+          ErrorType.TIMEOUT_ERROR,
+          url,
+          error as Error
+        );
+      }
+      throw new GeneratorError(
+        error instanceof Error ? error.message : 'Unknown error',
+        ErrorType.NETWORK_ERROR,
+        url,
+        error as Error
+      );
+    } finally {
+      clearTimeout(timeoutId);
+      this.stopController.signal.removeEventListener('abort', onStop);
+    }
+  }
+
+  /**
+   * Headers sent with every request
+   */
+  private getBaseHeaders(): Record<string, string> {
+    return {
+      'User-Agent': this.options.userAgent,
+      ...this.options.customHeaders
+    };
+  }
+
+  /**
+   * Secrets to mask in log output: auth cookies and credentials plus sensitive custom headers
+   */
+  private getSecrets(): string[] {
+    const headerSecrets = Object.entries(this.options.customHeaders)
+      .filter(([name]) => /authorization|cookie|token|secret|bypass|api-key/i.test(name))
+      .map(([, value]) => value);
+    return [...headerSecrets, ...(this.auth?.getSecrets() || [])];
+  }
+
+  /**
+   * Record a retry and sleep for the backoff delay
+   */
+  private async waitBeforeRetry(
+    url: string,
+    retryState: { retries: number },
+    delay: number,
+    error: unknown
+  ): Promise<void> {
+    retryState.retries++;
+    this.logger.debug(`Retrying ${url} in ${delay}ms (retry ${retryState.retries})`, {
+      reason: error instanceof Error ? error.message : String(error)
+    });
+    await this.sleep(delay);
+  }
+
+  /**
+   * Wait for the given time, waking early if the run is stopped
+   */
+  private async sleep(ms: number): Promise<void> {
+    const signal = this.stopController.signal;
+    if (signal.aborted) return;
+    
+    await new Promise<void>(resolve => {
+      const onStop = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onStop);
+        resolve();
+      }, ms);
+      signal.addEventListener('abort', onStop, { once: true });
+    });
   }
 
   /**
@@ -1256,6 +2344,7 @@ export class LLMSGenerator {
       return `### BEGIN PAGE\n` +
              `title: ${result.title}\n` +
              `url: ${result.url}\n` +
+             (result.summary ? `summary: ${result.summary}\n` : '') +
              `### END PAGE\n\n` +
              `${demotedContent}`;
     });
@@ -1293,7 +2382,8 @@ export class LLMSGenerator {
            `# site: ${metadata.siteUrl}\n` +
            `# generated: ${metadata.generatedAt}\n` +
            `# generator: ${metadata.generator}\n` +
-           `# pages: ${metadata.pageCount}`;
+           `# pages: ${metadata.pageCount}` +
+           (metadata.partial ? `\n# partial: true (${metadata.partial === 'deadline' ? 'deadline reached' : 'aborted'})` : '');
   }
 
   /**
@@ -1389,6 +2479,8 @@ export class LLMSGenerator {
       endTime: new Date(),
       duration: 0,
       globalLimitReached: false,
+      sitemaps: [],
+      partial: false
     };
   }
 
@@ -1396,10 +2488,28 @@ export class LLMSGenerator {
    * Create TurndownService instance
    */
   private createTurndownService(): TurndownService {
-    return new TurndownService({
+    const turndownService = new TurndownService({
       headingStyle: this.extractionConfig.turndownOptions.headingStyle,
       codeBlockStyle: this.extractionConfig.turndownOptions.codeBlockStyle
     });
+    addCodeBlockRules(turndownService);
+    addGfmRules(turndownService, this.extractionConfig.gfm);
+    return turndownService;
+  }
+
+  /**
+   * Built-in extractors with the user's extractors inserted at their requested positions
+   */
+  private createExtractorChain(): ExtractorChain {
+    const chain = new ExtractorChain(BUILT_IN_EXTRACTORS, this.logger);
+    for (const entry of this.options.extractors) {
+      if ('extractor' in entry) {
+        chain.insert(entry.extractor, entry);
+      } else {
+        chain.insert(entry);
+      }
+    }
+    return chain;
   }
 
   /**
@@ -1416,7 +2526,15 @@ export class LLMSGenerator {
         codeBlockStyle: 'fenced',
         ...userConfig?.turndownOptions
       },
-      useReadability: userConfig?.useReadability ?? true
+      useReadability: userConfig?.useReadability ?? true,
+      rules: userConfig?.rules || [],
+      gfm: {
+        tables: true,
+        strikethrough: true,
+        taskLists: true,
+        definitionLists: true,
+        ...userConfig?.gfm
+      }
     };
   }
 
@@ -1438,7 +2556,14 @@ export class LLMSGenerator {
 
     return {
       siteUrl,
-      sitemapUrl: userOptions.sitemapUrl || `${siteUrl}/sitemap.xml`,
+      source: userOptions.source ?? 'crawl',
+      buildOutputDirs: userOptions.buildOutputDirs || DEFAULT_BUILD_OUTPUT_DIRS,
+      sitemapUrl: userOptions.sitemapUrl || '',
+      sitemap: userOptions.sitemap || '',
+      feedUrls: userOptions.feedUrls || [],
+      openApiSpecs: userOptions.openApiSpecs || [],
+      discoverSitemaps: userOptions.discoverSitemaps ?? true,
+      maxSitemapDepth: userOptions.maxSitemapDepth ?? 5,
       maxPages: userOptions.maxPages ?? 5000,
       concurrency: userOptions.concurrency ?? 5,
       includePatterns: userOptions.includePatterns || [],
@@ -1450,26 +2575,48 @@ export class LLMSGenerator {
       requestTimeoutMs: userOptions.requestTimeoutMs ?? 20000,
       maxCharsPerPage: userOptions.maxCharsPerPage ?? 200000,
       maxTotalChars: userOptions.maxTotalChars ?? 50000000,
+      maxHtmlBytes: userOptions.maxHtmlBytes ?? 5 * 1024 * 1024,
+      contentHandlers: userOptions.contentHandlers || [],
+      signal: userOptions.signal || new AbortController().signal,
+      deadlineMs: userOptions.deadlineMs ?? 0,
       retries: userOptions.retries ?? 3,
+      retryPolicy: userOptions.retryPolicy || {},
       keepQueryParams: userOptions.keepQueryParams || [],
       respectRobots: userOptions.respectRobots ?? false,
       customHeaders: userOptions.customHeaders || {},
+      fetcher: userOptions.fetcher || createDefaultFetcher(resolveProxyConfig(userOptions.proxy)),
+      proxy: userOptions.proxy ?? {},
+      auth: userOptions.auth || {},
       logger: userOptions.logger || new ConsoleLogger(),
       extractionConfig: userOptions.extractionConfig || {},
       includeStats: userOptions.includeStats ?? false,
       contentTransformer: userOptions.contentTransformer || ((content: string) => content),
+      enableRouteDiscovery: userOptions.enableRouteDiscovery ?? false,
+      routeDirs: userOptions.routeDirs || DEFAULT_ROUTE_DIRS,
+      routeParams: userOptions.routeParams || (() => []),
       enableRecursiveDiscovery: userOptions.enableRecursiveDiscovery ?? false,
       maxRecursiveDepth: userOptions.maxRecursiveDepth ?? 3,
       maxLinksPerPage: userOptions.maxLinksPerPage ?? 50,
       enableContentCleaning: userOptions.enableContentCleaning ?? false,
       enableMultipleExtractionMethods: userOptions.enableMultipleExtractionMethods ?? false,
+      extractors: userOptions.extractors || [],
       requestDelay: userOptions.requestDelay ?? 100,
+      rateLimit: {
+        // A legacy requestDelay maps to the equivalent rate; 0 means unlimited
+        requestsPerSecond: userOptions.requestDelay !== undefined
+          ? (userOptions.requestDelay > 0 ? 1000 / userOptions.requestDelay : 0)
+          : 10,
+        ...userOptions.rateLimit
+      },
+      crawlCache: userOptions.crawlCache ?? false,
+      manifestPath: userOptions.manifestPath || '',
       enableFileSystemDiscovery: userOptions.enableFileSystemDiscovery ?? false,
       fileSystemBasePath: userOptions.fileSystemBasePath || process.cwd(),
       fileIncludePatterns: userOptions.fileIncludePatterns || ['**/*.md', '**/*.mdx', '**/*.txt'],
       fileExcludePatterns: userOptions.fileExcludePatterns || ['**/node_modules/**', '**/.*/**', '**/dist/**', '**/build/**'],
       maxFileSystemDepth: userOptions.maxFileSystemDepth ?? 10,
       followSymlinks: userOptions.followSymlinks ?? false,
+      filePathToUrl: userOptions.filePathToUrl || defaultFilePathToUrl,
       outputFormat: userOptions.outputFormat ?? 'full',
       formatLimits: userOptions.formatLimits ?? {
         full: {
@@ -1506,6 +2653,20 @@ export class LLMSGenerator {
   }
 }
 
+/**
+ * Default file-to-URL mapping: strip the extension, collapse index files and join onto siteUrl
+ */
+export function defaultFilePathToUrl(file: DiscoveredFile, siteUrl: string): string | null {
+  const route = file.relativePath
+    .split(path.sep)
+    .join('/')
+    .slice(0, -file.extension.length || undefined)
+    .replace(/(^|\/)(index|README)$/i, '')
+    .replace(/\/+$/, '');
+  
+  return route ? `${siteUrl}/${route}` : siteUrl;
+}
+
 /**
  * Convenience function for generating LLMS content
  */
@@ -1515,4 +2676,23 @@ export async function generateFullLLMS(options: GeneratorOptions = {}): Promise<
 }
 
 // Export utility functions
-export { ErrorType, GeneratorError } from './types.js';
\ No newline at end of file
+export { ErrorType, GeneratorError } from './types.js';
+export { DefaultFetcher, NodeHttpFetcher } from './fetcher.js';
+export {
+  markdownHandler,
+  plainTextHandler,
+  jsonHandler,
+  BUILT_IN_CONTENT_HANDLERS,
+  ContentHandlerRegistry
+} from './content-handlers.js';
+export {
+  readabilityExtractor,
+  semanticSelectorExtractor,
+  contentSelectorExtractor,
+  metadataExtractor,
+  rawTextExtractor,
+  BUILT_IN_EXTRACTORS,
+  ExtractorChain,
+  contentLengthScore,
+  MIN_EXTRACTION_SCORE
+} from './extractors.js';
\ No newline at end of file
@@ -0,0 +1,152 @@
+import type TurndownService from "turndown";
+import type { GfmOptions } from './types.js';
+
+/**
+ * Marker left in place of task list checkboxes, which Readability strips along with other inputs
+ */
+const TASK_MARKER_ATTRIBUTE = 'data-task-checked';
+
+/**
+ * Add GitHub-flavoured Markdown rules (tables, strikethrough, task lists) and definition lists
+ */
+export function addGfmRules(turndownService: TurndownService, options: GfmOptions): void {
+  if (options.strikethrough) {
+    turndownService.addRule('strikethrough', {
+      filter: node => ['DEL', 'S', 'STRIKE'].includes(node.nodeName),
+      replacement: content => content.trim() ? `~~${content}~~` : ''
+    });
+  }
+
+  if (options.taskLists) {
+    turndownService.addRule('taskListItem', {
+      filter: node => (node.nodeName === 'INPUT' && node.getAttribute('type') === 'checkbox' && !!node.closest('li')) ||
+        node.hasAttribute(TASK_MARKER_ATTRIBUTE),
+      replacement: (_content, node) => {
+        const element = node as HTMLElement;
+        const checked = element.nodeName === 'INPUT'
+          ? element.hasAttribute('checked')
+          : element.getAttribute(TASK_MARKER_ATTRIBUTE) === 'true';
+        const spaced = /^\s/.test(element.nextSibling?.textContent || '');
+        return (checked ? '[x]' : '[ ]') + (spaced ? '' : ' ');
+      }
+    });
+  }
+
+  if (options.definitionLists) {
+    turndownService.addRule('definitionList', {
+      filter: 'dl',
+      replacement: content => `\n\n${content.replace(/\n{3,}/g, '\n\n').trim()}\n\n`
+    });
+    turndownService.addRule('definitionTerm', {
+      filter: 'dt',
+      replacement: content => `\n\n${content.replace(/\s+/g, ' ').trim()}\n`
+    });
+    turndownService.addRule('definitionDescription', {
+      filter: 'dd',
+      replacement: content => `:   ${content.trim().replace(/\n(?=[^\n])/g, '\n    ')}\n`
+    });
+  }
+
+  if (options.tables) {
+    turndownService.addRule('table', {
+      filter: node => node.nodeName === 'TABLE' && !node.querySelector('table'),
+      replacement: (_content, node) => convertTable(node as HTMLTableElement, turndownService)
+    });
+  }
+}
+
+/**
+ * Replace task list checkboxes with markers that survive Readability
+ */
+export function markTaskListItems(document: Document): void {
+  document.querySelectorAll('li input[type="checkbox"]').forEach((input: Element) => {
+    const marker = document.createElement('span');
+    marker.setAttribute(TASK_MARKER_ATTRIBUTE, String(input.hasAttribute('checked')));
+    marker.textContent = input.hasAttribute('checked') ? '[x]' : '[ ]';
+    input.replaceWith(marker);
+  });
+}
+
+/**
+ * Convert a table to GFM, padding colspan/rowspan cells so columns stay aligned.
+ * Tables without a header row get an empty one; single-cell layout tables are unwrapped.
+ */
+function convertTable(table: HTMLTableElement, turndownService: TurndownService): string {
+  const rows = Array.from(table.rows).filter(row => row.closest('table') === table);
+  if (rows.length === 0) return '';
+
+  const grid: string[][] = [];
+  const alignments: string[] = [];
+  const pendingRowspans: number[] = [];
+  let headerRows = 0;
+
+  rows.forEach((row, rowIndex) => {
+    const cells: string[] = [];
+    let column = 0;
+
+    const fillSpannedColumns = () => {
+      while ((pendingRowspans[column] || 0) > 0) {
+        pendingRowspans[column]!--;
+        cells.push('');
+        column++;
+      }
+    };
+
+    for (const cell of Array.from(row.cells)) {
+      fillSpannedColumns();
+      const colspan = Math.max(1, Number(cell.getAttribute('colspan')) || 1);
+      const rowspan = Math.max(1, Number(cell.getAttribute('rowspan')) || 1);
+
+      const align = (cell.getAttribute('align') || cell.style?.textAlign || '').toLowerCase();
+      if (align && alignments[column] === undefined) alignments[column] = align;
+
+      cells.push(convertCell(cell, turndownService));
+      for (let span = 0; span < colspan; span++) {
+        if (span > 0) cells.push('');
+        if (rowspan > 1) pendingRowspans[column] = rowspan - 1;
+        column++;
+      }
+    }
+    fillSpannedColumns();
+
+    const isHeader = row.parentElement?.nodeName === 'THEAD' ||
+      (rowIndex === 0 && row.cells.length > 0 && Array.from(row.cells).every(cell => cell.nodeName === 'TH'));
+    if (isHeader && headerRows === rowIndex) headerRows++;
+    grid.push(cells);
+  });
+
+  const columnCount = Math.max(...grid.map(cells => cells.length));
+  if (columnCount === 0) return '';
+
+  const caption = Array.from(table.children).find(child => child.nodeName === 'CAPTION')?.textContent?.replace(/\s+/g, ' ').trim();
+  if (grid.length === 1 && columnCount === 1) {
+    return `\n\n${caption ? `${caption}\n\n` : ''}${grid[0]![0] || ''}\n\n`;
+  }
+
+  // GFM allows a single header row; further header rows become body rows
+  const header = headerRows > 0 ? grid[0]! : [];
+  const body = headerRows > 0 ? grid.slice(1) : grid;
+
+  const formatRow = (cells: string[]) =>
+    `| ${Array.from({ length: columnCount }, (_, index) => cells[index] || '').join(' | ')} |`;
+  const separator = `| ${Array.from({ length: columnCount }, (_, index) => {
+    const align = alignments[index];
+    if (align === 'center') return ':---:';
+    if (align === 'right') return '---:';
+    if (align === 'left') return ':---';
+    return '---';
+  }).join(' | ')} |`;
+
+  const lines = [formatRow(header), separator, ...body.map(formatRow)];
+  return `\n\n${caption ? `${caption}\n\n` : ''}${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Cell content on a single line: block breaks become <br>, pipes are escaped
+ */
+function convertCell(cell: HTMLTableCellElement, turndownService: TurndownService): string {
+  return turndownService.turndown(cell.innerHTML)
+    .trim()
+    .replace(/\n+/g, '<br>')
+    .replace(/\|/g, '\\|');
+}
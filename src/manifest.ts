@@ -0,0 +1,88 @@
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import type { GenerationManifest, Logger, ManifestEntry, PageResult } from './types.js';
+
+/**
+ * Version of the page extraction pipeline; bump whenever extraction output changes
+ * so manifests written by older versions are not spliced into new output
+ */
+export const EXTRACTION_VERSION = 2;
+
+/**
+ * Manifest file format version
+ */
+const MANIFEST_FORMAT_VERSION = 1;
+
+/**
+ * Derive the extraction version recorded in manifests from the pipeline version and
+ * the options that change extracted content
+ */
+export function getExtractionVersion(settings: unknown): string {
+  return `${EXTRACTION_VERSION}:${hashContent(JSON.stringify(settings)).slice(0, 12)}`;
+}
+
+/**
+ * SHA-256 hash of page content
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Build a manifest entry for a crawled page
+ */
+export function createManifestEntry(result: PageResult): ManifestEntry {
+  const entry: ManifestEntry = { url: result.url, contentHash: hashContent(result.content), result };
+  if (result.lastmod) entry.lastmod = result.lastmod;
+  return entry;
+}
+
+/**
+ * Read a manifest, returning null when it is missing, unreadable or from another format version
+ */
+export async function loadManifest(manifestPath: string, logger?: Logger): Promise<GenerationManifest | null> {
+  let manifest: GenerationManifest;
+  try {
+    manifest = JSON.parse(await fs.promises.readFile(manifestPath, 'utf8')) as GenerationManifest;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      logger?.warn(`Ignoring unreadable manifest ${manifestPath}`, error);
+    }
+    return null;
+  }
+
+  if (manifest.formatVersion !== MANIFEST_FORMAT_VERSION || !Array.isArray(manifest.pages)) {
+    logger?.warn(`Ignoring manifest ${manifestPath}: unsupported format`);
+    return null;
+  }
+
+  // Drop entries whose stored content no longer matches its hash
+  manifest.pages = manifest.pages.filter(entry => {
+    if (!entry.result || hashContent(entry.result.content) !== entry.contentHash) return false;
+    entry.result.timestamp = new Date(entry.result.timestamp);
+    return true;
+  });
+  return manifest;
+}
+
+/**
+ * Write a manifest for the pages of this run
+ */
+export async function writeManifest(
+  manifestPath: string,
+  siteUrl: string,
+  extractionVersion: string,
+  results: PageResult[]
+): Promise<void> {
+  const manifest: GenerationManifest = {
+    formatVersion: MANIFEST_FORMAT_VERSION,
+    generatedAt: new Date().toISOString(),
+    siteUrl,
+    extractionVersion,
+    pages: results.map(createManifestEntry)
+  };
+
+  await fs.promises.mkdir(path.dirname(manifestPath), { recursive: true });
+  await fs.promises.writeFile(manifestPath, JSON.stringify(manifest, null, 2), 'utf8');
+}
@@ -0,0 +1,526 @@
+import type { Logger, OpenApiOperationPage } from './types.js';
+import { ErrorType, GeneratorError } from './types.js';
+import { fenceCode } from './content-handlers.js';
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Operation keys of a Path Item Object, in display order
+ */
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * Nesting limit when listing schema properties
+ */
+const MAX_SCHEMA_DEPTH = 5;
+
+/**
+ * Limit on chained $ref lookups, guarding against reference loops
+ */
+const MAX_REF_HOPS = 20;
+
+/**
+ * Renders OpenAPI 3.x and Swagger 2 documents into one Markdown page per operation
+ */
+export class OpenApiRenderer {
+  constructor(private readonly logger?: Logger) {}
+
+  /**
+   * Render every operation in the spec
+   */
+  render(spec: unknown, source: string): OpenApiOperationPage[] {
+    if (!isObject(spec) || (typeof spec.openapi !== 'string' && typeof spec.swagger !== 'string')) {
+      throw new GeneratorError(
+        'Not an OpenAPI 3 or Swagger 2 document',
+        ErrorType.PARSE_ERROR,
+        source
+      );
+    }
+
+    const pages: OpenApiOperationPage[] = [];
+    const slugs = new Set<string>();
+    const paths = isObject(spec.paths) ? spec.paths : {};
+
+    for (const [apiPath, rawPathItem] of Object.entries(paths)) {
+      const pathItem = this.resolve(rawPathItem, spec);
+      if (!isObject(pathItem)) continue;
+
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method];
+        if (!isObject(operation)) continue;
+
+        let slug = slugify(asString(operation.operationId) || `${method} ${apiPath}`) || method;
+        for (let suffix = 2; slugs.has(slug); suffix++) {
+          slug = `${slug.replace(/-\d+$/, '')}-${suffix}`;
+        }
+        slugs.add(slug);
+
+        const page: OpenApiOperationPage = {
+          slug,
+          title: `${method.toUpperCase()} ${apiPath}`,
+          content: this.renderOperation(spec, apiPath, method, pathItem, operation)
+        };
+        const summary = asString(operation.summary);
+        if (summary) page.summary = summary;
+        pages.push(page);
+      }
+    }
+
+    this.logger?.debug(`Rendered ${pages.length} operations from ${source}`);
+    return pages;
+  }
+
+  /**
+   * Markdown for a single operation
+   */
+  private renderOperation(
+    spec: JsonObject,
+    apiPath: string,
+    method: string,
+    pathItem: JsonObject,
+    operation: JsonObject
+  ): string {
+    const sections: string[] = [`\`${method.toUpperCase()} ${apiPath}\``];
+
+    const baseUrl = this.getBaseUrl(spec, pathItem, operation);
+    if (baseUrl) sections.push(`Base URL: \`${baseUrl}\``);
+
+    const description = asString(operation.description) || asString(pathItem.description);
+    if (description) sections.push(description.trim());
+
+    const details: string[] = [];
+    if (Array.isArray(operation.tags) && operation.tags.length > 0) {
+      details.push(`Tags: ${operation.tags.map(String).join(', ')}`);
+    }
+    const security = this.describeSecurity(spec, operation);
+    if (security) details.push(`Authentication: ${security}`);
+    if (operation.deprecated === true) details.push('**Deprecated**');
+    if (details.length > 0) sections.push(details.join('\n\n'));
+
+    const parameters = this.collectParameters(spec, pathItem, operation);
+    const listed = parameters.filter(parameter => parameter.in !== 'body' && parameter.in !== 'formData');
+    if (listed.length > 0) {
+      sections.push('## Parameters', listed.map(parameter => this.renderParameter(spec, parameter)).join('\n'));
+    }
+
+    const requestBody = this.renderRequestBody(spec, operation, parameters);
+    if (requestBody) sections.push('## Request Body', requestBody);
+
+    const responses = this.resolve(operation.responses, spec);
+    if (isObject(responses) && Object.keys(responses).length > 0) {
+      sections.push('## Responses');
+      for (const [status, rawResponse] of Object.entries(responses)) {
+        sections.push(this.renderResponse(spec, operation, status, rawResponse));
+      }
+    }
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Server URL (OpenAPI 3) or scheme, host and basePath (Swagger 2)
+   */
+  private getBaseUrl(spec: JsonObject, pathItem: JsonObject, operation: JsonObject): string | undefined {
+    const servers = [operation.servers, pathItem.servers, spec.servers].find(
+      candidate => Array.isArray(candidate) && candidate.length > 0
+    ) as unknown[] | undefined;
+    if (servers && isObject(servers[0])) {
+      return asString(servers[0].url);
+    }
+
+    const host = asString(spec.host);
+    if (!host) return undefined;
+    const scheme = Array.isArray(spec.schemes) && typeof spec.schemes[0] === 'string' ? spec.schemes[0] : 'https';
+    return `${scheme}://${host}${asString(spec.basePath) || ''}`;
+  }
+
+  /**
+   * Security scheme names and types required by the operation
+   */
+  private describeSecurity(spec: JsonObject, operation: JsonObject): string | undefined {
+    const requirements = Array.isArray(operation.security) ? operation.security : spec.security;
+    if (!Array.isArray(requirements) || requirements.length === 0) return undefined;
+
+    const components = isObject(spec.components) ? spec.components : {};
+    const schemes = isObject(components.securitySchemes)
+      ? components.securitySchemes
+      : isObject(spec.securityDefinitions) ? spec.securityDefinitions : {};
+
+    const names = new Set<string>();
+    requirements.filter(isObject).forEach(requirement => Object.keys(requirement).forEach(name => names.add(name)));
+
+    return Array.from(names).map(name => {
+      const scheme = this.resolve(schemes[name], spec);
+      const kind = isObject(scheme)
+        ? [asString(scheme.type), asString(scheme.scheme), asString(scheme.in) && `in ${asString(scheme.in)}`]
+          .filter(Boolean).join(', ')
+        : '';
+      return kind ? `\`${name}\` (${kind})` : `\`${name}\``;
+    }).join(', ') || undefined;
+  }
+
+  /**
+   * Path-level parameters overridden by operation parameters with the same name and location
+   */
+  private collectParameters(spec: JsonObject, pathItem: JsonObject, operation: JsonObject): JsonObject[] {
+    const byKey = new Map<string, JsonObject>();
+    for (const list of [pathItem.parameters, operation.parameters]) {
+      if (!Array.isArray(list)) continue;
+      for (const raw of list) {
+        const parameter = this.resolve(raw, spec);
+        if (!isObject(parameter)) continue;
+        byKey.set(`${asString(parameter.in)}:${asString(parameter.name)}`, parameter);
+      }
+    }
+    return Array.from(byKey.values());
+  }
+
+  /**
+   * List item for a path, query, header or cookie parameter
+   */
+  private renderParameter(spec: JsonObject, parameter: JsonObject): string {
+    const schema = isObject(parameter.schema) ? parameter.schema : parameter;
+    const attributes = [asString(parameter.in), this.describeType(schema, spec)];
+    if (parameter.required === true) attributes.push('required');
+    if (parameter.deprecated === true) attributes.push('deprecated');
+
+    let line = `- \`${asString(parameter.name) || '?'}\` (${attributes.filter(Boolean).join(', ')})`;
+    const notes = this.describeConstraints(this.resolve(schema, spec), asString(parameter.description));
+    if (notes) line += `: ${notes}`;
+
+    const example = parameter.example ?? parameter['x-example'];
+    if (example !== undefined) line += ` Example: \`${formatInline(example)}\``;
+    return line;
+  }
+
+  /**
+   * Request body from `requestBody` (OpenAPI 3) or body/formData parameters (Swagger 2)
+   */
+  private renderRequestBody(spec: JsonObject, operation: JsonObject, parameters: JsonObject[]): string | undefined {
+    const requestBody = this.resolve(operation.requestBody, spec);
+    if (isObject(requestBody)) {
+      const parts: string[] = [];
+      const description = asString(requestBody.description);
+      if (description) parts.push(description.trim());
+      if (requestBody.required === true) parts.push('Required.');
+      parts.push(...this.renderContent(spec, requestBody.content));
+      return parts.join('\n\n');
+    }
+
+    const bodyParameter = parameters.find(parameter => parameter.in === 'body');
+    if (bodyParameter) {
+      const consumes = this.getMediaTypes(spec, operation, 'consumes');
+      const parts: string[] = [`Content type: ${consumes.map(type => `\`${type}\``).join(', ')}`];
+      const description = asString(bodyParameter.description);
+      if (description) parts.push(description.trim());
+      parts.push(...this.renderSchemaBlock(spec, bodyParameter.schema));
+      const example = isObject(bodyParameter.schema) ? bodyParameter.schema.example : undefined;
+      if (example !== undefined) parts.push('Example:', formatExample(example, consumes[0]));
+      return parts.join('\n\n');
+    }
+
+    const formParameters = parameters.filter(parameter => parameter.in === 'formData');
+    if (formParameters.length > 0) {
+      const consumes = this.getMediaTypes(spec, operation, 'consumes');
+      return `Content type: ${consumes.map(type => `\`${type}\``).join(', ')}\n\n` +
+        formParameters.map(parameter => this.renderParameter(spec, { ...parameter, in: 'form' })).join('\n');
+    }
+
+    return undefined;
+  }
+
+  /**
+   * One response status with its description, schema and examples
+   */
+  private renderResponse(spec: JsonObject, operation: JsonObject, status: string, rawResponse: unknown): string {
+    const response = this.resolve(rawResponse, spec);
+    if (!isObject(response)) return `### ${status}`;
+
+    const parts = [`### ${status}${asString(response.description) ? `: ${asString(response.description)!.trim()}` : ''}`];
+
+    if (isObject(response.content)) {
+      parts.push(...this.renderContent(spec, response.content));
+    } else if (response.schema !== undefined) {
+      const produces = this.getMediaTypes(spec, operation, 'produces');
+      parts.push(`Content type: ${produces.map(type => `\`${type}\``).join(', ')}`);
+      parts.push(...this.renderSchemaBlock(spec, response.schema));
+      if (isObject(response.examples)) {
+        for (const [mediaType, example] of Object.entries(response.examples)) {
+          parts.push(`Example (\`${mediaType}\`):`, formatExample(example, mediaType));
+        }
+      }
+    }
+
+    const headers = this.resolve(response.headers, spec);
+    if (isObject(headers) && Object.keys(headers).length > 0) {
+      const lines = Object.entries(headers).map(([name, rawHeader]) => {
+        const header = this.resolve(rawHeader, spec);
+        return this.renderParameter(spec, { ...(isObject(header) ? header : {}), name, in: 'header' });
+      });
+      parts.push('Headers:', lines.join('\n'));
+    }
+
+    return parts.join('\n\n');
+  }
+
+  /**
+   * Media types of an OpenAPI 3 Content Object with their schemas and examples
+   */
+  private renderContent(spec: JsonObject, content: unknown): string[] {
+    if (!isObject(content)) return [];
+    const parts: string[] = [];
+
+    for (const [mediaType, rawMedia] of Object.entries(content)) {
+      parts.push(`Content type: \`${mediaType}\``);
+      const media = this.resolve(rawMedia, spec);
+      if (!isObject(media)) continue;
+
+      parts.push(...this.renderSchemaBlock(spec, media.schema));
+
+      const schema = this.resolve(media.schema, spec);
+      const example = media.example ?? (isObject(schema) ? schema.example : undefined);
+      if (example !== undefined) {
+        parts.push('Example:', formatExample(example, mediaType));
+      }
+      if (isObject(media.examples)) {
+        for (const [name, rawExample] of Object.entries(media.examples)) {
+          const namedExample = this.resolve(rawExample, spec);
+          if (!isObject(namedExample) || namedExample.value === undefined) continue;
+          const label = asString(namedExample.summary) || name;
+          parts.push(`Example (${label}):`, formatExample(namedExample.value, mediaType));
+        }
+      }
+    }
+
+    return parts;
+  }
+
+  /**
+   * Schema type line followed by its property list
+   */
+  private renderSchemaBlock(spec: JsonObject, rawSchema: unknown): string[] {
+    if (rawSchema === undefined) return [];
+    const schema = this.resolve(rawSchema, spec);
+    if (!isObject(schema)) return [];
+
+    const lines = this.renderProperties(spec, rawSchema, 0, new Set());
+    const description = asString(schema.description);
+    const header = `Schema: ${this.describeType(rawSchema, spec)}${description ? ` - ${description.trim()}` : ''}`;
+    return lines.length > 0 ? [header, lines.join('\n')] : [header];
+  }
+
+  /**
+   * Nested bullet list of object properties (following arrays, allOf and oneOf/anyOf variants)
+   */
+  private renderProperties(spec: JsonObject, rawSchema: unknown, depth: number, seen: Set<string>): string[] {
+    const ref = getRef(rawSchema);
+    if (depth >= MAX_SCHEMA_DEPTH || (ref && seen.has(ref))) return [];
+    const nextSeen = ref ? new Set(seen).add(ref) : seen;
+
+    const schema = this.resolve(rawSchema, spec);
+    if (!isObject(schema)) return [];
+
+    if (schema.items !== undefined && !isObject(schema.properties)) {
+      return this.renderProperties(spec, schema.items, depth, nextSeen);
+    }
+
+    const variants = [schema.oneOf, schema.anyOf].find(Array.isArray);
+    if (variants && !isObject(schema.properties)) {
+      const indent = '  '.repeat(depth);
+      return variants.flatMap(variant => {
+        const nested = this.renderProperties(spec, variant, depth + 1, nextSeen);
+        return nested.length > 0 ? [`${indent}- Variant ${this.describeType(variant, spec)}:`, ...nested] : [];
+      });
+    }
+
+    const { properties, required } = this.mergeAllOf(spec, schema, nextSeen);
+    const indent = '  '.repeat(depth);
+    const lines: string[] = [];
+
+    for (const [name, rawProperty] of Object.entries(properties)) {
+      const property = this.resolve(rawProperty, spec);
+      const attributes = [this.describeType(rawProperty, spec)];
+      if (required.has(name)) attributes.push('required');
+      if (isObject(property) && property.readOnly === true) attributes.push('read-only');
+      if (isObject(property) && property.writeOnly === true) attributes.push('write-only');
+      if (isObject(property) && property.deprecated === true) attributes.push('deprecated');
+
+      let line = `${indent}- \`${name}\` (${attributes.join(', ')})`;
+      const notes = isObject(property) ? this.describeConstraints(property, asString(property.description)) : '';
+      if (notes) line += `: ${notes}`;
+      lines.push(line, ...this.renderProperties(spec, rawProperty, depth + 1, nextSeen));
+    }
+
+    return lines;
+  }
+
+  /**
+   * Properties and required names of a schema combined with its allOf members
+   */
+  private mergeAllOf(
+    spec: JsonObject,
+    schema: JsonObject,
+    seen: Set<string>
+  ): { properties: JsonObject; required: Set<string> } {
+    const properties: JsonObject = {};
+    const required = new Set<string>();
+
+    const visit = (raw: unknown, hops: number) => {
+      const ref = getRef(raw);
+      if (hops > MAX_REF_HOPS || (ref && seen.has(ref))) return;
+      const part = this.resolve(raw, spec);
+      if (!isObject(part)) return;
+
+      if (Array.isArray(part.allOf)) part.allOf.forEach(member => visit(member, hops + 1));
+      if (isObject(part.properties)) Object.assign(properties, part.properties);
+      if (Array.isArray(part.required)) part.required.forEach(name => required.add(String(name)));
+    };
+    visit(schema, 0);
+
+    return { properties, required };
+  }
+
+  /**
+   * Short type description such as `string (uuid)`, `array of User` or `one of Cat | Dog`
+   */
+  private describeType(rawSchema: unknown, spec: JsonObject, hops = 0): string {
+    const ref = getRef(rawSchema);
+    if (ref) {
+      const name = ref.split('/').pop() || ref;
+      const target = this.resolve(rawSchema, spec);
+      return isObject(target) && target.type === 'array' && hops < MAX_REF_HOPS
+        ? `${name}: ${this.describeType(target, spec, hops + 1)}`
+        : name;
+    }
+    if (!isObject(rawSchema) || hops >= MAX_REF_HOPS) return 'any';
+
+    const variants = [rawSchema.oneOf, rawSchema.anyOf].find(Array.isArray);
+    if (variants) {
+      const keyword = rawSchema.oneOf ? 'one of' : 'any of';
+      return `${keyword} ${variants.map(variant => this.describeType(variant, spec, hops + 1)).join(' | ')}`;
+    }
+    if (Array.isArray(rawSchema.allOf) && rawSchema.type === undefined) {
+      return rawSchema.allOf.map(member => this.describeType(member, spec, hops + 1)).join(' & ');
+    }
+
+    const types = (Array.isArray(rawSchema.type) ? rawSchema.type : [rawSchema.type]).filter(
+      (type): type is string => typeof type === 'string'
+    );
+    const nullable = rawSchema.nullable === true || types.includes('null');
+    const baseType = types.find(type => type !== 'null') || (isObject(rawSchema.properties) ? 'object' : 'any');
+
+    let description = baseType === 'array'
+      ? `array of ${this.describeType(rawSchema.items, spec, hops + 1)}`
+      : baseType;
+    const format = asString(rawSchema.format);
+    if (format) description += ` (${format})`;
+    if (nullable) description += ', nullable';
+    return description;
+  }
+
+  /**
+   * Description followed by enum values, default and numeric/length bounds
+   */
+  private describeConstraints(schema: unknown, description?: string): string {
+    const notes: string[] = [];
+    if (description) notes.push(description.trim().replace(/\s*\n\s*/g, ' '));
+    if (!isObject(schema)) return notes.join(' ');
+
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      notes.push(`One of: ${schema.enum.map(value => `\`${formatInline(value)}\``).join(', ')}.`);
+    }
+    if (schema.default !== undefined) notes.push(`Default: \`${formatInline(schema.default)}\`.`);
+
+    const bounds = [
+      ['minimum', 'min'], ['maximum', 'max'],
+      ['minLength', 'min length'], ['maxLength', 'max length'],
+      ['minItems', 'min items'], ['maxItems', 'max items'],
+      ['pattern', 'pattern']
+    ]
+      .filter(([key]) => schema[key!] !== undefined)
+      .map(([key, label]) => `${label} \`${formatInline(schema[key!])}\``);
+    if (bounds.length > 0) notes.push(`Constraints: ${bounds.join(', ')}.`);
+
+    return notes.join(' ');
+  }
+
+  /**
+   * Swagger 2 consumes/produces for the operation, falling back to the document and then JSON
+   */
+  private getMediaTypes(spec: JsonObject, operation: JsonObject, key: 'consumes' | 'produces'): string[] {
+    const types = [operation[key], spec[key]].find(value => Array.isArray(value) && value.length > 0);
+    return Array.isArray(types) ? types.map(String) : ['application/json'];
+  }
+
+  /**
+   * Follow local `#/...` references; external references are returned unresolved
+   */
+  private resolve(value: unknown, spec: JsonObject): unknown {
+    let current = value;
+    for (let hops = 0; hops < MAX_REF_HOPS; hops++) {
+      const ref = getRef(current);
+      if (!ref || !ref.startsWith('#/')) return current;
+
+      let target: unknown = spec;
+      for (const token of ref.slice(2).split('/')) {
+        const key = decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+        target = isObject(target) ? target[key] : undefined;
+      }
+      if (target === undefined) {
+        this.logger?.debug(`Unresolved OpenAPI reference ${ref}`);
+        return current;
+      }
+      current = target;
+    }
+    return current;
+  }
+}
+
+/**
+ * Check for a plain JSON object
+ */
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * String value or undefined
+ */
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+/**
+ * The `$ref` of a Reference Object
+ */
+function getRef(value: unknown): string | undefined {
+  return isObject(value) ? asString(value.$ref) : undefined;
+}
+
+/**
+ * Lowercase, hyphen-separated slug (camelCase operationIds are split into words)
+ */
+function slugify(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Single-line rendering of a scalar or JSON value
+ */
+function formatInline(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Fenced example, pretty-printed as JSON unless it is already a string
+ */
+function formatExample(value: unknown, mediaType?: string): string {
+  if (typeof value === 'string') {
+    return fenceCode(value, mediaType && /json/i.test(mediaType) ? 'json' : '');
+  }
+  return fenceCode(JSON.stringify(value, null, 2), 'json');
+}
@@ -0,0 +1,86 @@
+import fs from "node:fs";
+import tls from "node:tls";
+import type { ProxyOptions, ResolvedProxyConfig } from './types.js';
+
+/**
+ * Merge the explicit proxy option with HTTP_PROXY / HTTPS_PROXY / NO_PROXY from the environment.
+ * Explicit values win; `false` disables proxying entirely.
+ */
+export function resolveProxyConfig(
+  option: ProxyOptions | string | false | undefined,
+  env: NodeJS.ProcessEnv = process.env
+): ResolvedProxyConfig {
+  const options: ProxyOptions = typeof option === 'string' ? { url: option } : option || {};
+  const useEnv = option !== false;
+  const readEnv = (name: string) => (useEnv ? env[name] || env[name.toLowerCase()] : undefined) || undefined;
+
+  const config: ResolvedProxyConfig = {
+    noProxy: options.noProxy ?? parseNoProxy(readEnv('NO_PROXY'))
+  };
+
+  const httpProxy = options.httpUrl || options.url || readEnv('HTTP_PROXY');
+  const httpsProxy = options.httpsUrl || options.url || readEnv('HTTPS_PROXY') || readEnv('HTTP_PROXY');
+  if (option !== false && httpProxy) config.httpProxy = httpProxy;
+  if (option !== false && httpsProxy) config.httpsProxy = httpsProxy;
+
+  const ca = loadCaBundle(options);
+  if (ca) config.ca = ca;
+
+  return config;
+}
+
+/**
+ * Proxy URL to use for a request, or undefined to connect directly
+ */
+export function getProxyForUrl(url: string, config: ResolvedProxyConfig): string | undefined {
+  const target = new URL(url);
+  const proxy = target.protocol === 'https:' ? config.httpsProxy : config.httpProxy;
+  if (!proxy || shouldBypassProxy(target, config.noProxy)) {
+    return undefined;
+  }
+  return proxy;
+}
+
+/**
+ * Whether a resolved config needs the Node HTTP fetcher (a proxy or custom CA is configured)
+ */
+export function needsCustomTransport(config: ResolvedProxyConfig): boolean {
+  return Boolean(config.httpProxy || config.httpsProxy || config.ca);
+}
+
+/**
+ * Split a NO_PROXY value into entries
+ */
+function parseNoProxy(value: string | undefined): string[] {
+  return (value || '').split(/[\s,]+/).map(entry => entry.trim()).filter(Boolean);
+}
+
+/**
+ * Match a URL against NO_PROXY entries: `*`, exact hosts, domain suffixes (`example.com`,
+ * `.example.com`) and optional `:port`
+ */
+function shouldBypassProxy(url: URL, noProxy: string[]): boolean {
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+  return noProxy.some(entry => {
+    if (entry === '*') return true;
+
+    const match = entry.toLowerCase().match(/^(.*?)(?::(\d+))?$/);
+    const entryHost = (match?.[1] || '').replace(/^\*?\./, '').replace(/^\[|\]$/g, '');
+    const entryPort = match?.[2];
+    if (!entryHost || (entryPort && entryPort !== port)) return false;
+
+    return host === entryHost || host.endsWith(`.${entryHost}`);
+  });
+}
+
+/**
+ * Read the custom CA bundle, appended to Node's root certificates so public sites keep working
+ */
+function loadCaBundle(options: ProxyOptions): string[] | undefined {
+  const custom: string[] = [];
+  if (options.ca) custom.push(options.ca);
+  if (options.caFile) custom.push(fs.readFileSync(options.caFile, 'utf8'));
+  return custom.length > 0 ? [...tls.rootCertificates, ...custom] : undefined;
+}
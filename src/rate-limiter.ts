@@ -0,0 +1,173 @@
+import type { Logger, RateLimitOptions } from './types.js';
+
+/**
+ * Token bucket state for a single host
+ */
+interface HostBucket {
+  /** Configured rate that adaptive recovery climbs back to */
+  maxRate: number;
+
+  /** Current requests per second */
+  rate: number;
+
+  /** Bucket capacity */
+  burst: number;
+
+  /** Available tokens; negative while requests are queued */
+  tokens: number;
+
+  /** Time tokens were last refilled; in the future while the host is paused */
+  updatedAt: number;
+}
+
+/**
+ * Per-host token bucket scheduler shared by every request a generator makes.
+ * Requests reserve a token synchronously, so concurrent workers queue up instead of bursting.
+ */
+export class RateLimiter {
+  private readonly buckets = new Map<string, HostBucket | null>();
+  private readonly crawlDelays = new Map<string, number>();
+
+  constructor(
+    private readonly options: RateLimitOptions = {},
+    private readonly logger?: Logger
+  ) {}
+
+  /**
+   * Wait until a request to the URL's host may start; resolves early when the signal aborts
+   */
+  async acquire(url: string, signal?: AbortSignal): Promise<void> {
+    const bucket = this.getBucket(url);
+    if (!bucket) return;
+
+    const now = Date.now();
+    this.refill(bucket, now);
+    bucket.tokens -= 1;
+
+    const queued = bucket.tokens < 0 ? (-bucket.tokens / bucket.rate) * 1000 : 0;
+    const wait = Math.max(0, bucket.updatedAt - now) + queued;
+    if (wait > 0 && !signal?.aborted) {
+      await new Promise<void>(resolve => {
+        const onAbort = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+        const timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }, wait);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    }
+  }
+
+  /**
+   * Cap a host at one request per Crawl-delay seconds
+   */
+  setCrawlDelay(url: string, seconds: number): void {
+    const host = this.getHost(url);
+    if (!host || seconds <= 0) return;
+
+    this.crawlDelays.set(host, seconds);
+    this.buckets.delete(host);
+  }
+
+  /**
+   * Halve the host's rate after a 429 or 5xx response
+   */
+  recordThrottle(url: string): void {
+    const bucket = this.getBucket(url);
+    if (!bucket || this.options.adaptive === false) return;
+
+    const minRate = Math.min(bucket.maxRate, this.options.minRequestsPerSecond ?? 0.5);
+    const rate = Math.max(minRate, bucket.rate / 2);
+    if (rate < bucket.rate) {
+      this.logger?.info(`Slowing down requests to ${this.getHost(url)} to ${rate.toFixed(2)}/s`);
+      bucket.rate = rate;
+    }
+  }
+
+  /**
+   * Recover a throttled host's rate gradually after a successful response
+   */
+  recordSuccess(url: string): void {
+    const bucket = this.getBucket(url);
+    if (!bucket || bucket.rate >= bucket.maxRate) return;
+
+    bucket.rate = Math.min(bucket.maxRate, bucket.rate + bucket.maxRate / 10);
+  }
+
+  /**
+   * Hold all requests to the host for the given time (e.g. from Retry-After)
+   */
+  pause(url: string, delayMs: number): void {
+    const bucket = this.getBucket(url);
+    if (!bucket) return;
+
+    const now = Date.now();
+    this.refill(bucket, now);
+    const resumeAt = now + delayMs;
+    if (resumeAt > bucket.updatedAt) {
+      bucket.updatedAt = resumeAt;
+      bucket.tokens = Math.min(bucket.tokens, 1);
+    }
+  }
+
+  /**
+   * Get or create the bucket for a URL's host; null when the host is unlimited
+   */
+  private getBucket(url: string): HostBucket | null {
+    const host = this.getHost(url);
+    if (!host) return null;
+
+    let bucket = this.buckets.get(host);
+    if (bucket === undefined) {
+      bucket = this.createBucket(host);
+      this.buckets.set(host, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Build a bucket from the global limits, per-host overrides and Crawl-delay
+   */
+  private createBucket(host: string): HostBucket | null {
+    const override = this.options.hosts?.[host];
+    let rate = override?.requestsPerSecond ?? this.options.requestsPerSecond ?? 10;
+    let burst = override?.burst ?? this.options.burst ?? 5;
+
+    const crawlDelay = this.crawlDelays.get(host);
+    if (crawlDelay !== undefined) {
+      rate = rate > 0 ? Math.min(rate, 1 / crawlDelay) : 1 / crawlDelay;
+      burst = 1;
+    }
+
+    if (rate <= 0) {
+      return null;
+    }
+
+    burst = Math.max(1, burst);
+    return { maxRate: rate, rate, burst, tokens: burst, updatedAt: Date.now() };
+  }
+
+  /**
+   * Add tokens for the time elapsed since the last refill
+   */
+  private refill(bucket: HostBucket, now: number): void {
+    if (now <= bucket.updatedAt) return;
+
+    bucket.tokens = Math.min(bucket.burst, bucket.tokens + ((now - bucket.updatedAt) / 1000) * bucket.rate);
+    bucket.updatedAt = now;
+  }
+
+  /**
+   * Host key (hostname and port) for a URL
+   */
+  private getHost(url: string): string | null {
+    try {
+      return new URL(url).host;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import type { RetryPolicyOptions } from './types.js';
+import { ErrorType, GeneratorError } from './types.js';
+
+/**
+ * HTTP statuses that usually clear up on their own and are worth retrying
+ */
+export const DEFAULT_RETRY_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+/**
+ * Statuses whose Retry-After header is honoured
+ */
+const RETRY_AFTER_STATUSES = new Set([429, 503]);
+
+/**
+ * Decides whether a failed request is retried and how long to wait before the next attempt
+ */
+export class RetryPolicy {
+  private readonly options: Required<RetryPolicyOptions>;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    this.options = {
+      baseDelayMs: options.baseDelayMs ?? 250,
+      maxDelayMs: options.maxDelayMs ?? 10000,
+      maxRetryAfterMs: options.maxRetryAfterMs ?? 60000,
+      retryStatuses: options.retryStatuses || DEFAULT_RETRY_STATUSES,
+      jitter: options.jitter ?? true
+    };
+  }
+
+  /**
+   * Whether a response status is transient
+   */
+  isRetryableStatus(status: number): boolean {
+    return this.options.retryStatuses.includes(status);
+  }
+
+  /**
+   * Whether a thrown error is transient (timeouts and connection failures, not HTTP or parse errors)
+   */
+  isRetryableError(error: unknown): boolean {
+    if (error instanceof GeneratorError) {
+      return error.type === ErrorType.TIMEOUT_ERROR || error.type === ErrorType.NETWORK_ERROR;
+    }
+    return true;
+  }
+
+  /**
+   * Delay before the given retry (0-based), honouring Retry-After for 429/503.
+   * Returns null when the server asks for a longer wait than maxRetryAfterMs.
+   */
+  getDelay(attempt: number, status?: number, retryAfter?: string | null): number | null {
+    if (status !== undefined && RETRY_AFTER_STATUSES.has(status)) {
+      const retryAfterMs = parseRetryAfter(retryAfter);
+      if (retryAfterMs !== undefined) {
+        return retryAfterMs > this.options.maxRetryAfterMs ? null : retryAfterMs;
+      }
+    }
+
+    const exponential = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    // Equal jitter: keep at least half the backoff so retries still spread out
+    return this.options.jitter
+      ? Math.round(exponential / 2 + Math.random() * exponential / 2)
+      : exponential;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
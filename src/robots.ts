@@ -0,0 +1,167 @@
+import type { RobotsGroup, RobotsRule } from './types.js';
+
+/**
+ * Parsed robots.txt file (RFC 9309) with Allow/Disallow evaluation
+ */
+export class RobotsTxt {
+  /** Rule groups in file order */
+  readonly groups: RobotsGroup[];
+
+  /** Sitemap URLs declared with Sitemap: directives */
+  readonly sitemaps: string[];
+
+  constructor(content: string, baseUrl?: string) {
+    const { groups, sitemaps } = parseRobotsTxt(content, baseUrl);
+    this.groups = groups;
+    this.sitemaps = sitemaps;
+  }
+
+  /**
+   * Check whether a URL may be crawled by the given user agent
+   */
+  isAllowed(url: string, userAgent: string): boolean {
+    const rules = this.getRulesFor(userAgent);
+    if (rules.length === 0) return true;
+
+    let path: string;
+    try {
+      const urlObj = new URL(url);
+      path = urlObj.pathname + urlObj.search;
+    } catch {
+      return true;
+    }
+
+    // /robots.txt itself is always allowed
+    if (path === '/robots.txt') return true;
+
+    let bestMatch: RobotsRule | null = null;
+    for (const rule of rules) {
+      if (!matchesRobotsPattern(path, rule.path)) continue;
+
+      // Longest match wins; on a tie the least restrictive (Allow) rule wins
+      if (
+        !bestMatch ||
+        rule.path.length > bestMatch.path.length ||
+        (rule.path.length === bestMatch.path.length && rule.allow && !bestMatch.allow)
+      ) {
+        bestMatch = rule;
+      }
+    }
+
+    return bestMatch ? bestMatch.allow : true;
+  }
+
+  /**
+   * Get the Crawl-delay (in seconds) for the given user agent, if any
+   */
+  getCrawlDelay(userAgent: string): number | undefined {
+    return this.getGroupsFor(userAgent).find(group => group.crawlDelay !== undefined)?.crawlDelay;
+  }
+
+  /**
+   * Combined rules from every group that applies to the user agent
+   */
+  private getRulesFor(userAgent: string): RobotsRule[] {
+    return this.getGroupsFor(userAgent).flatMap(group => group.rules);
+  }
+
+  /**
+   * Groups that apply to the user agent: those naming its product token, else '*'
+   */
+  private getGroupsFor(userAgent: string): RobotsGroup[] {
+    const token = getProductToken(userAgent);
+    const matched = this.groups.filter(group => group.userAgents.includes(token));
+    return matched.length > 0 ? matched : this.groups.filter(group => group.userAgents.includes('*'));
+  }
+}
+
+/**
+ * Parse robots.txt content into rule groups and sitemap declarations
+ */
+export function parseRobotsTxt(content: string, baseUrl?: string): { groups: RobotsGroup[]; sitemaps: string[] } {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasUserAgent = false;
+
+  for (const rawLine of content.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    switch (field) {
+      case 'user-agent':
+        // Consecutive user-agent lines share one group
+        if (!current || !lastWasUserAgent) {
+          current = { userAgents: [], rules: [] };
+          groups.push(current);
+        }
+        current.userAgents.push(value.toLowerCase());
+        lastWasUserAgent = true;
+        continue;
+
+      case 'allow':
+      case 'disallow':
+        // Empty Disallow means "allow everything" and contributes no rule
+        if (current && value) {
+          current.rules.push({ allow: field === 'allow', path: normalizeRobotsPath(value) });
+        }
+        break;
+
+      case 'crawl-delay': {
+        const delay = Number(value);
+        if (current && Number.isFinite(delay) && delay >= 0) {
+          current.crawlDelay = delay;
+        }
+        break;
+      }
+
+      case 'sitemap':
+        try {
+          sitemaps.push(new URL(value, baseUrl).toString());
+        } catch {
+          // Ignore malformed sitemap URLs
+        }
+        break;
+    }
+
+    lastWasUserAgent = false;
+  }
+
+  return { groups, sitemaps };
+}
+
+/**
+ * Match a URL path against a robots.txt path pattern supporting '*' and '$'
+ */
+export function matchesRobotsPattern(path: string, pattern: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regexSource = body
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${regexSource}${anchored ? '$' : ''}`).test(normalizeRobotsPath(path));
+}
+
+/**
+ * Extract the lowercase product token from a User-Agent string
+ */
+function getProductToken(userAgent: string): string {
+  return (userAgent.trim().split(/[\s/]/)[0] || userAgent).toLowerCase();
+}
+
+/**
+ * Normalize percent-encoding so encoded and unencoded paths compare equal
+ */
+function normalizeRobotsPath(path: string): string {
+  try {
+    return encodeURI(decodeURI(path));
+  } catch {
+    return path;
+  }
+}
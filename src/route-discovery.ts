@@ -0,0 +1,167 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { Logger, RouteParams, SourceRoute } from './types.js';
+
+/**
+ * Default directories scanned for routes, relative to the project root
+ */
+export const DEFAULT_ROUTE_DIRS = ['app', 'src/app', 'pages', 'src/pages'];
+
+/**
+ * Extensions Next.js accepts for page files
+ */
+const PAGE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mdx', '.md'];
+
+/**
+ * Pages Router files that never render a route
+ */
+const SPECIAL_PAGES = new Set(['404', '500']);
+
+/**
+ * Scan Next.js source directories for page routes.
+ * Directories named `pages` use Pages Router rules, everything else App Router rules.
+ */
+export async function discoverSourceRoutes(
+  dirs: string[],
+  rootDir: string,
+  logger?: Logger
+): Promise<SourceRoute[]> {
+  const routes = new Map<string, SourceRoute>();
+
+  for (const dir of dirs) {
+    const absoluteDir = path.resolve(rootDir, dir);
+    if (!fs.existsSync(absoluteDir)) {
+      continue;
+    }
+
+    const router = path.basename(absoluteDir) === 'pages' ? 'pages' : 'app';
+    const found: SourceRoute[] = [];
+
+    if (router === 'app') {
+      await scanAppDirectory(absoluteDir, [], found);
+    } else {
+      await scanPagesDirectory(absoluteDir, [], found);
+    }
+
+    // Parallel routes and route groups can resolve several files to one URL
+    found.forEach(route => {
+      if (!routes.has(route.route)) routes.set(route.route, route);
+    });
+    logger?.info(`Found ${found.length} ${router} router pages in ${absoluteDir}`);
+  }
+
+  return Array.from(routes.values());
+}
+
+/**
+ * Whether a route pattern contains dynamic segments
+ */
+export function isDynamicRoute(route: string): boolean {
+  return /\[[^\]]+\]/.test(route);
+}
+
+/**
+ * Fill the dynamic segments of a route pattern; returns null when a required param is missing
+ */
+export function expandDynamicRoute(route: string, params: RouteParams): string | null {
+  const segments: string[] = [];
+
+  for (const segment of route.split('/').filter(Boolean)) {
+    const optionalCatchAll = segment.match(/^\[\[\.\.\.(.+)\]\]$/);
+    const catchAll = segment.match(/^\[\.\.\.(.+)\]$/);
+    const dynamic = segment.match(/^\[(.+)\]$/);
+    const name = optionalCatchAll?.[1] ?? catchAll?.[1] ?? dynamic?.[1];
+
+    if (name === undefined) {
+      segments.push(segment);
+      continue;
+    }
+
+    const raw = params[name];
+    const values = (Array.isArray(raw) ? raw : raw !== undefined ? [raw] : []).filter(value => value !== '');
+
+    if (values.length === 0) {
+      if (optionalCatchAll) continue;
+      return null;
+    }
+    if (!optionalCatchAll && !catchAll && values.length > 1) {
+      return null;
+    }
+
+    segments.push(...values.map(value => encodeURIComponent(value)));
+  }
+
+  return '/' + segments.join('/');
+}
+
+/**
+ * Walk an App Router directory, collecting folders that contain a page file
+ */
+async function scanAppDirectory(dirPath: string, urlSegments: string[], routes: SourceRoute[]): Promise<void> {
+  const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+
+  for (const entry of entries) {
+    if (entry.isFile() && isPageFile(entry.name, 'page')) {
+      const route = '/' + urlSegments.join('/');
+      routes.push({ route, filePath: path.join(dirPath, entry.name), router: 'app', dynamic: isDynamicRoute(route) });
+    }
+  }
+
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const name = entry.name;
+
+    // Private folders, hidden folders and intercepting routes never produce their own URL
+    if (name.startsWith('_') || name.startsWith('.') || /^\(\.{1,3}\)/.test(name)) {
+      continue;
+    }
+
+    // Route groups and parallel route slots do not add a URL segment
+    const isGroup = name.startsWith('(') && name.endsWith(')');
+    const isSlot = name.startsWith('@');
+    const nextSegments = isGroup || isSlot ? urlSegments : [...urlSegments, name];
+
+    await scanAppDirectory(path.join(dirPath, name), nextSegments, routes);
+  }
+}
+
+/**
+ * Walk a Pages Router directory, treating every page file as a route
+ */
+async function scanPagesDirectory(dirPath: string, urlSegments: string[], routes: SourceRoute[]): Promise<void> {
+  const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const name = entry.name;
+    if (name.startsWith('_') || name.startsWith('.')) continue;
+
+    if (entry.isDirectory()) {
+      // API routes are not pages
+      if (urlSegments.length === 0 && name === 'api') continue;
+      await scanPagesDirectory(path.join(dirPath, name), [...urlSegments, name], routes);
+      continue;
+    }
+
+    if (!entry.isFile() || !isPageFile(name)) continue;
+
+    const baseName = name.slice(0, -path.extname(name).length);
+    if (urlSegments.length === 0 && SPECIAL_PAGES.has(baseName)) continue;
+
+    const segments = baseName === 'index' ? urlSegments : [...urlSegments, baseName];
+    const route = '/' + segments.join('/');
+    routes.push({ route, filePath: path.join(dirPath, name), router: 'pages', dynamic: isDynamicRoute(route) });
+  }
+}
+
+/**
+ * Check whether a file name is a page file (optionally with a required base name)
+ */
+function isPageFile(fileName: string, baseName?: string): boolean {
+  const extension = path.extname(fileName);
+  if (!PAGE_EXTENSIONS.includes(extension)) return false;
+
+  const name = fileName.slice(0, -extension.length);
+  // Skip tests, stories and type declarations that live next to pages
+  if (/\.(test|spec|stories|d)$/.test(name)) return false;
+  return baseName === undefined || name === baseName;
+}
@@ -124,8 +124,8 @@ export function createGET(config: RouteConfig = {}): () => Promise<NextResponse>
         const generator = new LLMSGenerator(generatorOptions);
         content = await generator.generate();
         
-        // Cache the result
-        if (cache && cacheKey) {
+        // Cache the result (partial output from a deadline or abort is served but not cached)
+        if (cache && cacheKey && !generator.getLastStats()?.partial) {
           cache.set(cacheKey, content);
         }
       }
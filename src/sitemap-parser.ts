@@ -0,0 +1,337 @@
+import { JSDOM } from "jsdom";
+import type {
+  Logger,
+  SitemapAlternate,
+  SitemapChangeFreq,
+  SitemapImage,
+  SitemapNews,
+  SitemapResult,
+  SitemapUrl,
+  SitemapVideo
+} from './types.js';
+import { ErrorType, GeneratorError } from './types.js';
+
+/**
+ * XML namespaces used by the sitemap protocol and its extensions
+ */
+export const SITEMAP_NAMESPACES = {
+  sitemap: [
+    'http://www.sitemaps.org/schemas/sitemap/0.9',
+    'http://www.google.com/schemas/sitemap/0.84',
+    'http://www.google.com/schemas/sitemap/0.9'
+  ],
+  image: 'http://www.google.com/schemas/sitemap-image/1.1',
+  news: 'http://www.google.com/schemas/sitemap-news/0.9',
+  video: 'http://www.google.com/schemas/sitemap-video/1.1',
+  xhtml: 'http://www.w3.org/1999/xhtml'
+} as const;
+
+/**
+ * Well-known sitemap locations probed during discovery, relative to the site root
+ */
+export const WELL_KNOWN_SITEMAPS = [
+  'sitemap.xml',
+  'sitemap_index.xml',
+  'sitemap-0.xml',
+  'server-sitemap.xml'
+];
+
+/**
+ * Maximum number of URLs allowed in a single sitemap file by the protocol
+ */
+export const MAX_SITEMAP_URLS = 50000;
+
+/**
+ * Maximum uncompressed size of a single sitemap file allowed by the protocol
+ */
+export const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+const CHANGE_FREQUENCIES: readonly SitemapChangeFreq[] = [
+  'always', 'hourly', 'daily', 'weekly', 'monthly', 'yearly', 'never'
+];
+
+/**
+ * Namespace-aware parser for XML sitemaps (sitemaps.org protocol)
+ */
+export class SitemapParser {
+  constructor(private readonly logger?: Logger) {}
+
+  /**
+   * Parse sitemap XML into URL entries
+   */
+  parse(xml: string, sitemapUrl?: string): SitemapResult {
+    const document = this.parseXml(xml, sitemapUrl);
+    const root = document.documentElement;
+
+    if (this.isSitemapElement(root, 'sitemapindex')) {
+      return { urls: [], isIndex: true, childSitemaps: this.parseSitemapIndex(root) };
+    }
+
+    const urlElements = this.isSitemapElement(root, 'urlset')
+      ? this.childElements(root, 'url')
+      : Array.from(document.getElementsByTagNameNS('*', 'url')).filter(el => this.isSitemapElement(el, 'url'));
+
+    if (urlElements.length > MAX_SITEMAP_URLS) {
+      this.logger?.warn(`Sitemap exceeds the protocol limit of ${MAX_SITEMAP_URLS} URLs`, {
+        sitemapUrl,
+        urlCount: urlElements.length
+      });
+    }
+
+    const urls: SitemapUrl[] = [];
+    for (const element of urlElements) {
+      const entry = this.parseUrlElement(element);
+      if (entry) urls.push(entry);
+    }
+
+    // Fallback for non-conforming documents: collect every <loc>
+    if (urls.length === 0) {
+      for (const locElement of Array.from(document.getElementsByTagNameNS('*', 'loc'))) {
+        if (!this.isSitemapElement(locElement, 'loc')) continue;
+        const loc = this.toAbsoluteUrl(locElement.textContent);
+        if (loc) urls.push({ loc });
+      }
+    }
+
+    return { urls, isIndex: false };
+  }
+
+  /**
+   * Collect child sitemap locations from a <sitemapindex> element
+   */
+  private parseSitemapIndex(root: Element): string[] {
+    const childSitemaps: string[] = [];
+
+    for (const element of this.childElements(root, 'sitemap')) {
+      const loc = this.toAbsoluteUrl(this.childText(element, 'loc'));
+      if (loc) {
+        childSitemaps.push(loc);
+      } else {
+        this.logger?.debug('Skipping sitemap index entry without a valid absolute <loc>');
+      }
+    }
+
+    return childSitemaps;
+  }
+
+  /**
+   * Parse the XML string into a DOM document
+   */
+  private parseXml(xml: string, sitemapUrl?: string): Document {
+    // Strip BOM and leading whitespace, which would otherwise make the XML declaration invalid
+    const source = xml.replace(/^\uFEFF/, '').trimStart();
+
+    try {
+      return new JSDOM(source, { contentType: 'text/xml' }).window.document;
+    } catch (error) {
+      throw new GeneratorError(
+        `Invalid sitemap XML: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ErrorType.PARSE_ERROR,
+        sitemapUrl,
+        error as Error
+      );
+    }
+  }
+
+  /**
+   * Parse a single <url> element
+   */
+  private parseUrlElement(element: Element): SitemapUrl | null {
+    const loc = this.toAbsoluteUrl(this.childText(element, 'loc'));
+    if (!loc) {
+      this.logger?.debug('Skipping sitemap entry without a valid absolute <loc>');
+      return null;
+    }
+
+    const entry: SitemapUrl = { loc };
+
+    const lastmod = this.childText(element, 'lastmod');
+    if (lastmod && !Number.isNaN(Date.parse(lastmod))) {
+      entry.lastmod = lastmod;
+    }
+
+    const changefreq = this.childText(element, 'changefreq')?.toLowerCase();
+    if (changefreq && (CHANGE_FREQUENCIES as readonly string[]).includes(changefreq)) {
+      entry.changefreq = changefreq as SitemapChangeFreq;
+    }
+
+    const priority = this.childText(element, 'priority');
+    if (priority) {
+      const value = Number(priority);
+      if (!Number.isNaN(value) && value >= 0 && value <= 1) {
+        entry.priority = priority;
+      }
+    }
+
+    const images = this.extensionElements(element, SITEMAP_NAMESPACES.image, 'image')
+      .map(image => this.parseImage(image))
+      .filter((image): image is SitemapImage => image !== null);
+    if (images.length > 0) entry.images = images;
+
+    const newsElement = this.extensionElements(element, SITEMAP_NAMESPACES.news, 'news')[0];
+    if (newsElement) entry.news = this.parseNews(newsElement);
+
+    const videos = this.extensionElements(element, SITEMAP_NAMESPACES.video, 'video')
+      .map(video => this.parseVideo(video));
+    if (videos.length > 0) entry.videos = videos;
+
+    const alternates = this.parseAlternates(element);
+    if (alternates.length > 0) entry.alternates = alternates;
+
+    return entry;
+  }
+
+  /**
+   * Parse an <image:image> element
+   */
+  private parseImage(element: Element): SitemapImage | null {
+    const ns = SITEMAP_NAMESPACES.image;
+    const loc = this.toAbsoluteUrl(this.extensionText(element, ns, 'loc'));
+    if (!loc) return null;
+
+    const image: SitemapImage = { loc };
+    const caption = this.extensionText(element, ns, 'caption');
+    const title = this.extensionText(element, ns, 'title');
+    const geoLocation = this.extensionText(element, ns, 'geo_location');
+    const license = this.extensionText(element, ns, 'license');
+    if (caption) image.caption = caption;
+    if (title) image.title = title;
+    if (geoLocation) image.geoLocation = geoLocation;
+    if (license) image.license = license;
+    return image;
+  }
+
+  /**
+   * Parse a <news:news> element
+   */
+  private parseNews(element: Element): SitemapNews {
+    const ns = SITEMAP_NAMESPACES.news;
+    const news: SitemapNews = {};
+    const publication = this.extensionElements(element, ns, 'publication')[0];
+
+    if (publication) {
+      const name = this.extensionText(publication, ns, 'name');
+      const language = this.extensionText(publication, ns, 'language');
+      if (name) news.publicationName = name;
+      if (language) news.publicationLanguage = language;
+    }
+
+    const title = this.extensionText(element, ns, 'title');
+    const publicationDate = this.extensionText(element, ns, 'publication_date');
+    const keywords = this.splitList(this.extensionText(element, ns, 'keywords'));
+    if (title) news.title = title;
+    if (publicationDate) news.publicationDate = publicationDate;
+    if (keywords.length > 0) news.keywords = keywords;
+    return news;
+  }
+
+  /**
+   * Parse a <video:video> element
+   */
+  private parseVideo(element: Element): SitemapVideo {
+    const ns = SITEMAP_NAMESPACES.video;
+    const video: SitemapVideo = {};
+
+    const thumbnailLoc = this.toAbsoluteUrl(this.extensionText(element, ns, 'thumbnail_loc'));
+    const title = this.extensionText(element, ns, 'title');
+    const description = this.extensionText(element, ns, 'description');
+    const contentLoc = this.toAbsoluteUrl(this.extensionText(element, ns, 'content_loc'));
+    const playerLoc = this.toAbsoluteUrl(this.extensionText(element, ns, 'player_loc'));
+    const duration = Number(this.extensionText(element, ns, 'duration'));
+    const publicationDate = this.extensionText(element, ns, 'publication_date');
+    const tags = this.extensionElements(element, ns, 'tag')
+      .map(tag => tag.textContent?.trim() || '')
+      .filter(Boolean);
+
+    if (thumbnailLoc) video.thumbnailLoc = thumbnailLoc;
+    if (title) video.title = title;
+    if (description) video.description = description;
+    if (contentLoc) video.contentLoc = contentLoc;
+    if (playerLoc) video.playerLoc = playerLoc;
+    if (Number.isFinite(duration) && duration > 0) video.duration = duration;
+    if (publicationDate) video.publicationDate = publicationDate;
+    if (tags.length > 0) video.tags = tags;
+    return video;
+  }
+
+  /**
+   * Parse <xhtml:link rel="alternate" hreflang="..."> elements
+   */
+  private parseAlternates(element: Element): SitemapAlternate[] {
+    const alternates: SitemapAlternate[] = [];
+
+    for (const link of this.extensionElements(element, SITEMAP_NAMESPACES.xhtml, 'link')) {
+      if ((link.getAttribute('rel') || 'alternate').toLowerCase() !== 'alternate') continue;
+
+      const hreflang = link.getAttribute('hreflang')?.trim();
+      const href = this.toAbsoluteUrl(link.getAttribute('href'));
+      if (hreflang && href) {
+        alternates.push({ hreflang, href });
+      }
+    }
+
+    return alternates;
+  }
+
+  /**
+   * Check whether an element is a sitemap-protocol element with the given local name
+   */
+  private isSitemapElement(element: Element, localName: string): boolean {
+    if (element.localName !== localName) return false;
+    // Many generators omit the namespace entirely, so accept un-namespaced elements too
+    return !element.namespaceURI ||
+      (SITEMAP_NAMESPACES.sitemap as readonly string[]).includes(element.namespaceURI);
+  }
+
+  /**
+   * Direct children in the sitemap namespace with the given local name
+   */
+  private childElements(element: Element, localName: string): Element[] {
+    return Array.from(element.children).filter(child => this.isSitemapElement(child, localName));
+  }
+
+  /**
+   * Trimmed text of the first sitemap-namespace child with the given local name
+   */
+  private childText(element: Element, localName: string): string | undefined {
+    return this.childElements(element, localName)[0]?.textContent?.trim() || undefined;
+  }
+
+  /**
+   * Direct children in an extension namespace with the given local name
+   */
+  private extensionElements(element: Element, namespace: string, localName: string): Element[] {
+    return Array.from(element.children).filter(child =>
+      child.localName === localName && child.namespaceURI === namespace
+    );
+  }
+
+  /**
+   * Trimmed text of the first extension-namespace child with the given local name
+   */
+  private extensionText(element: Element, namespace: string, localName: string): string | undefined {
+    return this.extensionElements(element, namespace, localName)[0]?.textContent?.trim() || undefined;
+  }
+
+  /**
+   * Validate that a value is an absolute http(s) URL
+   */
+  private toAbsoluteUrl(value: string | null | undefined): string | undefined {
+    const trimmed = value?.trim();
+    if (!trimmed) return undefined;
+
+    try {
+      const url = new URL(trimmed);
+      return url.protocol === 'http:' || url.protocol === 'https:' ? trimmed : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Split a comma-separated list
+   */
+  private splitList(value: string | undefined): string[] {
+    return value ? value.split(',').map(item => item.trim()).filter(Boolean) : [];
+  }
+}
@@ -5,10 +5,31 @@ export interface GeneratorOptions {
   /** Site URL (required) */
   siteUrl?: string;
   
-  /** Sitemap URL (defaults to siteUrl/sitemap.xml) */
+  /** Where page content comes from: the live site over HTTP, or prerendered HTML in the Next.js build output (default: 'crawl') */
+  source?: 'crawl' | 'build';
+  
+  /** Build output directories read in 'build' mode, relative to the working directory (default: .next/server/app, .next/server/pages, out) */
+  buildOutputDirs?: string[];
+  
+  /** Sitemap URL (discovered from robots.txt and well-known locations when omitted) */
   sitemapUrl?: string;
   
-  /** Whether to respect robots.txt (default: false) */
+  /** Sitemap function (e.g. the default export of app/sitemap.ts) or path to a module exporting one; read in-process instead of fetching sitemap XML */
+  sitemap?: SitemapFunction | string;
+  
+  /** RSS 2.0 or Atom feed URLs used as an additional URL source (titles, summaries and dates are attached) */
+  feedUrls?: string[];
+  
+  /** OpenAPI 3.x / Swagger 2 JSON specs (URLs or file paths) rendered into one API reference page per operation */
+  openApiSpecs?: (string | OpenApiSource)[];
+  
+  /** Discover sitemaps from robots.txt and well-known locations when sitemapUrl is not set (default: true) */
+  discoverSitemaps?: boolean;
+  
+  /** Maximum nesting depth when following sitemap indexes (default: 5) */
+  maxSitemapDepth?: number;
+  
+  /** Whether to respect robots.txt Allow/Disallow rules and Crawl-delay (default: false) */
   respectRobots?: boolean;
   
   /** URL patterns to include (string or RegExp) */
@@ -29,15 +50,30 @@ export interface GeneratorOptions {
   /** Maximum total characters for entire output (default: 50,000,000) */
   maxTotalChars?: number;
   
+  /** Maximum response size in bytes; larger pages are skipped without reading further (default: 5 MB) */
+  maxHtmlBytes?: number;
+  
+  /** Handlers for non-HTML responses, tried before the built-in Markdown, plain text and JSON handlers */
+  contentHandlers?: ContentHandler[];
+  
+  /** Stops discovery and crawling when aborted; pages completed so far are rendered as a partial result */
+  signal?: AbortSignal;
+  
+  /** Overall time budget for generate() in milliseconds; 0 disables it (default: 0) */
+  deadlineMs?: number;
+  
   /** Number of concurrent requests (default: 5) */
   concurrency?: number;
   
   /** Request timeout in milliseconds (default: 20000) */
   requestTimeoutMs?: number;
   
-  /** Number of retries for failed requests (default: 3) */
+  /** Number of retries after the first attempt for transient failures (default: 3) */
   retries?: number;
   
+  /** Backoff and retry rules for failed requests */
+  retryPolicy?: RetryPolicyOptions;
+  
   /** Header title for the generated content */
   headerTitle?: string;
   
@@ -53,6 +89,18 @@ export interface GeneratorOptions {
   /** Custom headers for requests */
   customHeaders?: Record<string, string>;
   
+  /** HTTP client used for every request (sitemaps, robots.txt, feeds, pages); defaults to global fetch */
+  fetcher?: Fetcher;
+  
+  /**
+   * Proxy for all requests: a proxy URL, detailed options, or false to ignore HTTP(S)_PROXY.
+   * Defaults to HTTP_PROXY / HTTPS_PROXY / NO_PROXY; not applied to a custom fetcher.
+   */
+  proxy?: ProxyOptions | string | false;
+  
+  /** Cookies, login and per-URL credentials for crawling protected sites */
+  auth?: AuthOptions;
+  
   /** Custom logger implementation */
   logger?: Logger;
   
@@ -65,6 +113,15 @@ export interface GeneratorOptions {
   /** Custom content transformer function */
   contentTransformer?: (content: string, url: string) => string;
   
+  /** Discover routes by scanning the Next.js app/ and pages/ directories (default: false) */
+  enableRouteDiscovery?: boolean;
+  
+  /** Directories scanned for routes, relative to the working directory; `pages` dirs use Pages Router rules (default: app, src/app, pages, src/pages) */
+  routeDirs?: string[];
+  
+  /** Params for dynamic routes such as /blog/[slug], like generateStaticParams; dynamic routes are skipped without them */
+  routeParams?: (route: string) => RouteParams[] | Promise<RouteParams[]>;
+  
   /** Enable recursive page discovery beyond sitemap (default: false) */
   enableRecursiveDiscovery?: boolean;
   
@@ -80,9 +137,24 @@ export interface GeneratorOptions {
   /** Enable multiple extraction fallback methods */
   enableMultipleExtractionMethods?: boolean;
   
-  /** Delay between requests in milliseconds (default: 100) */
+  /** Extra extractors for the fallback chain, placed before/after a named extractor or ahead of the built-ins */
+  extractors?: (Extractor | ExtractorPlacement)[];
+  
+  /**
+   * Delay between requests in milliseconds (default: 100)
+   * @deprecated Use rateLimit.requestsPerSecond; a requestDelay is converted to the equivalent rate
+   */
   requestDelay?: number;
   
+  /** Per-host request rate limits shared by sitemap, discovery and crawl requests */
+  rateLimit?: RateLimitOptions;
+  
+  /** Persist fetched pages on disk and revalidate them with conditional requests (default: false) */
+  crawlCache?: boolean | CrawlCacheOptions;
+  
+  /** Manifest file for incremental regeneration; pages with an unchanged sitemap lastmod are reused from it */
+  manifestPath?: string;
+  
   /** Enable file system-based content discovery for local documentation */
   enableFileSystemDiscovery?: boolean;
   
@@ -101,6 +173,9 @@ export interface GeneratorOptions {
   /** Whether to follow symbolic links (default: false) */
   followSymlinks?: boolean;
   
+  /** Map a discovered file to its page URL; return null to leave the file out (default: path-based route) */
+  filePathToUrl?: (file: DiscoveredFile, siteUrl: string) => string | null;
+  
   /** Output format type (default: 'full') */
   outputFormat?: 'full' | 'small' | 'minimal';
   
@@ -169,6 +244,24 @@ export interface PageResult {
   
   /** Original content length before truncation */
   originalLength?: number;
+  
+  /** Error classification (if not successful) */
+  errorType?: ErrorType;
+  
+  /** Short summary (e.g. from frontmatter) */
+  summary?: string;
+  
+  /** Number of retries needed to fetch the page */
+  retries?: number;
+  
+  /** Whether the result was reused from the crawl cache */
+  fromCache?: boolean;
+  
+  /** Category id set by the page source, used instead of URL/content matching */
+  category?: string;
+  
+  /** Name of the extractor or content handler that produced the content */
+  extractor?: string;
 }
 
 /**
@@ -186,6 +279,112 @@ export interface ExtractionConfig {
   
   /** Whether to use Mozilla Readability for content extraction */
   useReadability: boolean;
+  
+  /** GitHub-flavoured Markdown conversions (all enabled by default) */
+  gfm: GfmOptions;
+  
+  /** Per-route overrides; the first rule whose urlPattern matches a page applies */
+  rules: ExtractionRule[];
+}
+
+/**
+ * Page handed to an extractor
+ */
+export interface ExtractionContext {
+  /** Page URL */
+  url: string;
+  
+  /** Parsed page without scripts, styles and stripped selectors; extractors may modify it */
+  document: Document;
+  
+  /** Whether Readability is enabled for this page (global setting or extraction rule) */
+  useReadability: boolean;
+  
+  /** Convert an HTML fragment to Markdown with the generator's Turndown rules */
+  toMarkdown(html: string): string;
+}
+
+/**
+ * Title and Markdown produced by an extractor
+ */
+export interface ExtractedContent {
+  /** Page title */
+  title: string;
+  
+  /** Page content in Markdown */
+  content: string;
+}
+
+/**
+ * Content extraction strategy in the fallback chain
+ */
+export interface Extractor {
+  /** Name used for placement and recorded on PageResult.extractor */
+  name: string;
+  
+  /** Whether to try this extractor on the page (default: always) */
+  canHandle?(context: ExtractionContext): boolean;
+  
+  /** Extract the page, or return null when nothing usable is found */
+  extract(context: ExtractionContext): ExtractedContent | null;
+  
+  /** Quality of a result from 0 to 1; below 0.1 the next extractor is tried (default: content length, 1 at 500 characters) */
+  score?(result: ExtractedContent, context: ExtractionContext): number;
+}
+
+/**
+ * Position of a user extractor in the chain
+ */
+export interface ExtractorPlacement {
+  extractor: Extractor;
+  
+  /** Insert before the extractor with this name */
+  before?: string;
+  
+  /** Insert after the extractor with this name */
+  after?: string;
+}
+
+/**
+ * Where a page title is taken from
+ */
+export type TitleSource = 'readability' | 'document' | 'h1' | 'og:title';
+
+/**
+ * Extraction settings for pages matching a URL pattern
+ */
+export interface ExtractionRule {
+  /** URL substring or RegExp, matched like includePatterns */
+  urlPattern: string | RegExp;
+  
+  /** Selector of the main content element; used instead of Readability and the fallbacks when it matches */
+  contentSelector?: string;
+  
+  /** Selectors stripped in addition to the global stripSelectors */
+  stripSelectors?: string[];
+  
+  /** Overrides useReadability for matching pages */
+  useReadability?: boolean;
+  
+  /** Title source: Readability's title, <title>, the first <h1> or og:title (default: 'readability') */
+  titleSource?: TitleSource;
+}
+
+/**
+ * Markdown extensions applied when converting HTML
+ */
+export interface GfmOptions {
+  /** Convert tables to GFM pipe tables, padding colspan/rowspan cells */
+  tables?: boolean;
+  
+  /** Convert <del>, <s> and <strike> to ~~text~~ */
+  strikethrough?: boolean;
+  
+  /** Convert list item checkboxes to [ ] and [x] */
+  taskLists?: boolean;
+  
+  /** Convert <dl> to `Term` / `:   Definition` pairs */
+  definitionLists?: boolean;
 }
 
 /**
@@ -213,10 +412,193 @@ export interface SitemapUrl {
   lastmod?: string;
   
   /** Change frequency */
-  changefreq?: string;
+  changefreq?: SitemapChangeFreq;
   
-  /** Priority */
+  /** Priority (0.0 - 1.0) */
   priority?: string;
+  
+  /** Images from the image sitemap extension */
+  images?: SitemapImage[];
+  
+  /** News metadata from the news sitemap extension */
+  news?: SitemapNews;
+  
+  /** Videos from the video sitemap extension */
+  videos?: SitemapVideo[];
+  
+  /** Localized alternates from xhtml:link hreflang entries */
+  alternates?: SitemapAlternate[];
+  
+  /** Sitemap file this URL was listed in */
+  sitemap?: string;
+  
+  /** Title known before crawling (e.g. from a feed) */
+  title?: string;
+  
+  /** Summary known before crawling (e.g. from a feed) */
+  summary?: string;
+}
+
+/**
+ * How a root sitemap was found
+ */
+export type SitemapSource = 'option' | 'robots.txt' | 'default' | 'well-known' | 'function';
+
+/**
+ * Sitemap entry in the shape returned by a Next.js MetadataRoute sitemap() function
+ */
+export interface SitemapEntry {
+  url: string;
+  lastModified?: string | Date;
+  changeFrequency?: SitemapChangeFreq;
+  priority?: number;
+  alternates?: {
+    languages?: Record<string, string>;
+  };
+  images?: string[];
+  videos?: {
+    title: string;
+    thumbnail_loc: string;
+    description: string;
+    content_loc?: string;
+    player_loc?: string;
+    duration?: number;
+    publication_date?: string | Date;
+    tag?: string;
+  }[];
+}
+
+/**
+ * In-process sitemap provider, compatible with Next.js app/sitemap.ts
+ */
+export type SitemapFunction = () => SitemapEntry[] | Promise<SitemapEntry[]>;
+
+/**
+ * Root sitemap candidate produced by sitemap discovery
+ */
+export interface SitemapCandidate {
+  /** Sitemap URL */
+  url: string;
+  
+  /** Where the sitemap URL came from */
+  source: SitemapSource;
+}
+
+/**
+ * Allowed changefreq values from the sitemap protocol
+ */
+export type SitemapChangeFreq =
+  | 'always'
+  | 'hourly'
+  | 'daily'
+  | 'weekly'
+  | 'monthly'
+  | 'yearly'
+  | 'never';
+
+/**
+ * Image entry from the image sitemap extension
+ */
+export interface SitemapImage {
+  /** Image URL */
+  loc: string;
+  
+  /** Image caption */
+  caption?: string;
+  
+  /** Image title */
+  title?: string;
+  
+  /** Geographic location of the image */
+  geoLocation?: string;
+  
+  /** License URL */
+  license?: string;
+}
+
+/**
+ * News entry from the news sitemap extension
+ */
+export interface SitemapNews {
+  /** Publication name */
+  publicationName?: string;
+  
+  /** Publication language */
+  publicationLanguage?: string;
+  
+  /** Article title */
+  title?: string;
+  
+  /** Article publication date */
+  publicationDate?: string;
+  
+  /** Article keywords */
+  keywords?: string[];
+}
+
+/**
+ * Video entry from the video sitemap extension
+ */
+export interface SitemapVideo {
+  /** Thumbnail URL */
+  thumbnailLoc?: string;
+  
+  /** Video title */
+  title?: string;
+  
+  /** Video description */
+  description?: string;
+  
+  /** URL of the video media file */
+  contentLoc?: string;
+  
+  /** URL of the video player */
+  playerLoc?: string;
+  
+  /** Duration in seconds */
+  duration?: number;
+  
+  /** Publication date */
+  publicationDate?: string;
+  
+  /** Video tags */
+  tags?: string[];
+}
+
+/**
+ * Localized alternate URL from an xhtml:link element
+ */
+export interface SitemapAlternate {
+  /** Language/region code (e.g. en-US, x-default) */
+  hreflang: string;
+  
+  /** Alternate URL */
+  href: string;
+}
+
+/**
+ * A single Allow/Disallow rule from robots.txt
+ */
+export interface RobotsRule {
+  /** Whether this is an Allow rule (false = Disallow) */
+  allow: boolean;
+  
+  /** Path pattern (may contain '*' and a trailing '$') */
+  path: string;
+}
+
+/**
+ * A robots.txt group of rules for one or more user agents
+ */
+export interface RobotsGroup {
+  /** Lowercased user-agent tokens this group applies to */
+  userAgents: string[];
+  
+  /** Allow/Disallow rules in file order */
+  rules: RobotsRule[];
+  
+  /** Crawl-delay in seconds */
+  crawlDelay?: number;
 }
 
 /**
@@ -233,10 +615,100 @@ export interface DiscoveredUrl {
   parentUrl?: string;
   
   /** Discovery method (sitemap, link, etc.) */
-  discoveryMethod: 'sitemap' | 'internal-link' | 'external-link';
+  discoveryMethod: 'sitemap' | 'internal-link' | 'external-link' | 'filesystem-route' | 'feed';
   
   /** Last modification date if available */
   lastmod?: string;
+  
+  /** Title known before crawling (e.g. from a feed) */
+  title?: string;
+  
+  /** Summary known before crawling (e.g. from a feed) */
+  summary?: string;
+}
+
+/**
+ * Entry parsed from an RSS or Atom feed
+ */
+export interface FeedEntry {
+  /** Absolute entry URL */
+  url: string;
+  
+  /** Entry title */
+  title?: string;
+  
+  /** Plain-text summary */
+  summary?: string;
+  
+  /** Publication or update date (ISO-8601) */
+  date?: string;
+}
+
+/**
+ * OpenAPI 3.x or Swagger 2 document to render into API reference pages
+ */
+export interface OpenApiSource {
+  /** Spec URL or file path relative to the working directory (JSON) */
+  spec: string;
+  
+  /** Path prefix for the generated page URLs (default: '/api/reference') */
+  routePrefix?: string;
+  
+  /** Category assigned to the generated pages (default: 'api') */
+  category?: string;
+}
+
+/**
+ * API reference page rendered from a single OpenAPI operation
+ */
+export interface OpenApiOperationPage {
+  /** URL-safe slug from the operationId, or the method and path */
+  slug: string;
+  
+  /** Method and path, e.g. `GET /users/{id}` */
+  title: string;
+  
+  /** Operation summary */
+  summary?: string;
+  
+  /** Markdown with parameters, request body, responses and examples */
+  content: string;
+}
+
+/**
+ * Params used to fill the dynamic segments of a route
+ */
+export type RouteParams = Record<string, string | string[]>;
+
+/**
+ * Page route found by scanning Next.js source directories
+ */
+export interface SourceRoute {
+  /** Route pattern (e.g. /blog/[slug]) */
+  route: string;
+  
+  /** Absolute path to the page file */
+  filePath: string;
+  
+  /** Router the page belongs to */
+  router: 'app' | 'pages';
+  
+  /** Whether the route contains dynamic segments */
+  dynamic: boolean;
+}
+
+/**
+ * Prerendered page found in the Next.js build output
+ */
+export interface BuildOutputPage {
+  /** Absolute path to the HTML file */
+  filePath: string;
+  
+  /** Route path (e.g. /blog/vim) */
+  route: string;
+  
+  /** File modification time */
+  lastModified: Date;
 }
 
 /**
@@ -299,6 +771,17 @@ export interface FileDiscoveryStats {
   durationMs: number;
 }
 
+/**
+ * Result of splitting a document into frontmatter and body
+ */
+export interface FrontmatterResult {
+  /** Flat key/value pairs from the frontmatter block */
+  data: Record<string, string>;
+  
+  /** Document body with the frontmatter block removed */
+  body: string;
+}
+
 /**
  * Content cleaning configuration
  */
@@ -443,8 +926,16 @@ export interface DocumentMetadata {
   
   /** Generator name and version */
   generator: string;
+  
+  /** Why generation stopped early, for partial output */
+  partial?: GenerationStopReason;
 }
 
+/**
+ * Why a generate() run stopped before completing
+ */
+export type GenerationStopReason = 'aborted' | 'deadline';
+
 /**
  * Generation statistics (llms-full specification)
  */
@@ -481,6 +972,50 @@ export interface GenerationStats {
   
   /** Whether global character limit was reached */
   globalLimitReached: boolean;
+  
+  /** Per-sitemap diagnostics from sitemap traversal */
+  sitemaps: SitemapDiagnostic[];
+  
+  /** Whether generation stopped early and the output is incomplete */
+  partial: boolean;
+  
+  /** Why generation stopped early */
+  stopReason?: GenerationStopReason;
+}
+
+/**
+ * Diagnostic record for a single sitemap visited during traversal
+ */
+export interface SitemapDiagnostic {
+  /** Sitemap URL */
+  url: string;
+  
+  /** Nesting depth (0 = root sitemap) */
+  depth: number;
+  
+  /** Sitemap index that referenced this sitemap */
+  parentUrl?: string;
+  
+  /** How the root sitemap of this branch was found */
+  source: SitemapSource;
+  
+  /** Traversal outcome */
+  status: 'parsed' | 'failed' | 'cycle' | 'depth-limit';
+  
+  /** Whether this sitemap is a sitemap index */
+  isIndex: boolean;
+  
+  /** Number of page URLs contributed by this sitemap */
+  urlCount: number;
+  
+  /** Number of child sitemaps referenced (if this is an index) */
+  childCount: number;
+  
+  /** Time spent fetching and parsing in milliseconds */
+  durationMs: number;
+  
+  /** Error message if the sitemap failed */
+  error?: string;
 }
 
 /**
@@ -492,7 +1027,9 @@ export enum ErrorType {
   TIMEOUT_ERROR = 'TIMEOUT_ERROR',
   ROBOTS_BLOCKED = 'ROBOTS_BLOCKED',
   INVALID_URL = 'INVALID_URL',
-  CONTENT_TOO_LARGE = 'CONTENT_TOO_LARGE'
+  CONTENT_TOO_LARGE = 'CONTENT_TOO_LARGE',
+  AUTH_ERROR = 'AUTH_ERROR',
+  ABORTED = 'ABORTED'
 }
 
 /**
@@ -510,6 +1047,365 @@ export class GeneratorError extends Error {
   }
 }
 
+/**
+ * Persistent crawl cache configuration
+ */
+export interface CrawlCacheOptions {
+  /** Cache directory, relative to the working directory (default: .next/cache/next-llms-generator) */
+  dir?: string;
+  
+  /** Total size above which least recently used entries are evicted (default: 100 MB) */
+  maxSizeBytes?: number;
+  
+  /** Age after which entries are refetched and evicted; 0 keeps them indefinitely (default: 7 days) */
+  maxAgeMs?: number;
+  
+  /** Reuse a cached result without any request when the sitemap lastmod is unchanged (default: true) */
+  trustLastmod?: boolean;
+}
+
+/**
+ * Cached response and extracted result for a single URL
+ */
+export interface CrawlCacheEntry {
+  /** Page URL */
+  url: string;
+  
+  /** ETag response header */
+  etag?: string;
+  
+  /** Last-Modified response header */
+  lastModified?: string;
+  
+  /** Sitemap lastmod at the time of the fetch */
+  lastmod?: string;
+  
+  /** Raw HTML */
+  html: string;
+  
+  /** Extracted page */
+  result: PageResult;
+  
+  /** When the entry was written (ms since epoch) */
+  storedAt: number;
+}
+
+/**
+ * Manifest record for one page of a previous run
+ */
+export interface ManifestEntry {
+  /** Page URL */
+  url: string;
+  
+  /** SHA-256 of the extracted content */
+  contentHash: string;
+  
+  /** Sitemap lastmod when the page was crawled */
+  lastmod?: string;
+  
+  /** Extracted page, spliced into the next run when unchanged */
+  result: PageResult;
+}
+
+/**
+ * Record of a generation run used for incremental regeneration
+ */
+export interface GenerationManifest {
+  /** Manifest file format version */
+  formatVersion: number;
+  
+  /** When the run finished */
+  generatedAt: string;
+  
+  /** Site the pages belong to */
+  siteUrl: string;
+  
+  /** Extraction pipeline version and settings fingerprint */
+  extractionVersion: string;
+  
+  /** Crawled pages */
+  pages: ManifestEntry[];
+}
+
+/**
+ * Per-request options for fetching with retries
+ */
+export interface FetchRequestOptions {
+  /** Retries for transient failures (default: the retries option) */
+  retries?: number;
+  
+  /** Counter incremented on every retry */
+  retryState?: { retries: number };
+  
+  /** Extra request headers, e.g. conditional request validators */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Token bucket limits for a single host
+ */
+export interface HostRateLimit {
+  /** Sustained requests per second; 0 disables limiting */
+  requestsPerSecond?: number;
+  
+  /** Requests that may start back-to-back before the rate applies */
+  burst?: number;
+}
+
+/**
+ * Per-host rate limiting configuration
+ */
+export interface RateLimitOptions extends HostRateLimit {
+  /** Halve a host's rate on 429/5xx responses and recover gradually on success (default: true) */
+  adaptive?: boolean;
+  
+  /** Lowest rate adaptive slowdown may reach (default: 0.5) */
+  minRequestsPerSecond?: number;
+  
+  /** Overrides keyed by host, e.g. { 'cdn.example.com': { requestsPerSecond: 50 } } */
+  hosts?: Record<string, HostRateLimit>;
+}
+
+/**
+ * Retry and backoff configuration
+ */
+export interface RetryPolicyOptions {
+  /** Backoff before the first retry, doubled on each further retry (default: 250) */
+  baseDelayMs?: number;
+  
+  /** Upper bound for the exponential backoff (default: 10000) */
+  maxDelayMs?: number;
+  
+  /** Longest Retry-After wait to honour; longer requests give up instead (default: 60000) */
+  maxRetryAfterMs?: number;
+  
+  /** HTTP statuses treated as transient (default: 408, 425, 429, 500, 502, 503, 504) */
+  retryStatuses?: number[];
+  
+  /** Randomize backoff delays to avoid synchronized retries (default: true) */
+  jitter?: boolean;
+}
+
+/**
+ * Page content produced by a content handler
+ */
+export interface ContentHandlerResult {
+  /** Page title (defaults to the last URL path segment) */
+  title?: string;
+  
+  /** Page content in Markdown */
+  content: string;
+  
+  /** Short summary */
+  summary?: string;
+  
+  /** Language code */
+  language?: string;
+}
+
+/**
+ * Information passed to a content handler
+ */
+export interface ContentHandlerContext {
+  /** Final response URL */
+  url: string;
+  
+  /** Full Content-Type header */
+  contentType: string;
+  
+  /** The generator's Markdown cleanup (frontmatter, JSX, imports, comments) */
+  cleanMarkdown(content: string): string;
+}
+
+/**
+ * Converts a non-HTML response body into page content
+ */
+export interface ContentHandler {
+  /** Name used in logs */
+  name: string;
+  
+  /** MIME types handled, e.g. 'application/json'; `*` matches within a segment, as in 'application/*+json' */
+  contentTypes: string[];
+  
+  /** Convert the decoded body; return null to skip the page */
+  handle(
+    body: string,
+    context: ContentHandlerContext
+  ): ContentHandlerResult | null | Promise<ContentHandlerResult | null>;
+}
+
+/**
+ * Proxy and TLS configuration
+ */
+export interface ProxyOptions {
+  /** Proxy for both http and https URLs, e.g. http://proxy.corp:3128 */
+  url?: string;
+  
+  /** Proxy for http URLs (overrides url) */
+  httpUrl?: string;
+  
+  /** Proxy for https URLs (overrides url) */
+  httpsUrl?: string;
+  
+  /** Hosts to connect to directly; defaults to NO_PROXY (entries like `localhost`, `.corp.example`, `*`) */
+  noProxy?: string[];
+  
+  /** PEM file with extra CA certificates, e.g. for a TLS-intercepting proxy */
+  caFile?: string;
+  
+  /** PEM string with extra CA certificates */
+  ca?: string;
+}
+
+/**
+ * Proxy settings after merging options with the environment
+ */
+export interface ResolvedProxyConfig {
+  /** Proxy for http URLs */
+  httpProxy?: string;
+  
+  /** Proxy for https URLs */
+  httpsProxy?: string;
+  
+  /** Hosts to connect to directly */
+  noProxy: string[];
+  
+  /** Trusted CA certificates (Node's roots plus the custom bundle) */
+  ca?: string[];
+}
+
+/**
+ * Cookie added to the jar before crawling
+ */
+export interface CookieInit {
+  /** Cookie name */
+  name: string;
+  
+  /** Cookie value */
+  value: string;
+  
+  /** Domain the cookie applies to, including subdomains (default: the siteUrl host only) */
+  domain?: string;
+  
+  /** Path the cookie applies to (default: /) */
+  path?: string;
+}
+
+/**
+ * Scripted form login run once before the first request
+ */
+export interface LoginOptions {
+  /** Login form URL, absolute or relative to siteUrl */
+  url: string;
+  
+  /** HTTP method (default: POST) */
+  method?: string;
+  
+  /** Form fields, sent as application/x-www-form-urlencoded */
+  fields: Record<string, string>;
+  
+  /** Extra request headers */
+  headers?: Record<string, string>;
+}
+
+/**
+ * HTTP Basic credentials for matching URLs
+ */
+export interface BasicCredentials {
+  type: 'basic';
+  
+  /** URL prefix or RegExp the credentials are sent to */
+  urlPattern: string | RegExp;
+  
+  username: string;
+  
+  password: string;
+}
+
+/**
+ * Bearer token for matching URLs
+ */
+export interface BearerCredentials {
+  type: 'bearer';
+  
+  /** URL prefix or RegExp the token is sent to */
+  urlPattern: string | RegExp;
+  
+  token: string;
+}
+
+/**
+ * Credentials scoped to a URL pattern
+ */
+export type UrlCredentials = BasicCredentials | BearerCredentials;
+
+/**
+ * Authentication configuration
+ */
+export interface AuthOptions {
+  /** Cookies sent from the first request, e.g. a deployment protection bypass cookie */
+  cookies?: CookieInit[];
+  
+  /** Form login whose Set-Cookie responses seed the cookie jar */
+  login?: LoginOptions;
+  
+  /** Basic/Bearer credentials; the first matching entry is used */
+  credentials?: UrlCredentials[];
+}
+
+/**
+ * Request passed to a Fetcher
+ */
+export interface FetcherRequest {
+  /** Request URL */
+  url: string;
+  
+  /** HTTP method (default: GET) */
+  method?: string;
+  
+  /** Request headers */
+  headers: Record<string, string>;
+  
+  /** Request body */
+  body?: string;
+  
+  /** Signal aborted on timeout or cancellation */
+  signal?: AbortSignal;
+  
+  /** Redirect handling (default: follow) */
+  redirect?: 'follow' | 'manual';
+}
+
+/**
+ * Response returned by a Fetcher
+ */
+export interface FetcherResponse {
+  /** HTTP status code */
+  status: number;
+  
+  /** HTTP status text */
+  statusText?: string;
+  
+  /** Response headers (a Headers instance satisfies this) */
+  headers: {
+    get(name: string): string | null;
+    getSetCookie?(): string[];
+  };
+  
+  /** Response body stream, or null for an empty body */
+  body: ReadableStream<Uint8Array> | null;
+  
+  /** Final URL after redirects */
+  url: string;
+}
+
+/**
+ * Pluggable HTTP client used for all network access
+ */
+export interface Fetcher {
+  fetch(request: FetcherRequest): Promise<FetcherResponse>;
+}
+
 /**
  * Logger interface for customizable logging
  */